@@ -8,9 +8,10 @@ import { TimelineItem } from './VideoEditor';
 interface AudioExtractorProps {
   videoItem: TimelineItem | null;
   onAddExtractedAudio: (item: TimelineItem) => void;
+  onLinkItems?: (ids: string[]) => void;
 }
 
-const AudioExtractor: React.FC<AudioExtractorProps> = ({ videoItem, onAddExtractedAudio }) => {
+const AudioExtractor: React.FC<AudioExtractorProps> = ({ videoItem, onAddExtractedAudio, onLinkItems }) => {
   const [isExtracting, setIsExtracting] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [extractedAudioUrl, setExtractedAudioUrl] = useState<string | null>(null);
@@ -149,8 +150,10 @@ const AudioExtractor: React.FC<AudioExtractorProps> = ({ videoItem, onAddExtract
     const newAudioItem: TimelineItem = {
       id: `audio-${Date.now()}`,
       trackId: 'track3', // First audio track
-      start: 0,
+      start: videoItem.start,
       duration: videoItem.duration,
+      trimStart: videoItem.trimStart,
+      trimEnd: videoItem.trimEnd,
       type: 'audio',
       name: `Audio from ${videoItem.name}`,
       color: 'bg-blue-400/70',
@@ -160,6 +163,8 @@ const AudioExtractor: React.FC<AudioExtractorProps> = ({ videoItem, onAddExtract
     };
     
     onAddExtractedAudio(newAudioItem);
+    // Keep the audio in sync with the clip it came from
+    onLinkItems?.([videoItem.id, newAudioItem.id]);
     toast.success('Audio added to timeline', {
       description: `Added to Audio Track 1`
     });
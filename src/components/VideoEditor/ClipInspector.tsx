@@ -0,0 +1,248 @@
+import React from 'react';
+import { Diamond, RotateCcw } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { ClipFit, ClipReframe, ClipTransform, KeyframeProperty, TimelineItem } from './VideoEditor';
+import { DEFAULT_REFRAME, DEFAULT_TRANSFORM, getClipReframe, getClipTransform, isVisualItem } from '@/lib/compositing';
+import {
+  clearKeyframes,
+  findKeyframeAt,
+  getKeyframes,
+  getPropertyValue,
+  getSourceTime,
+  isAnimated,
+  KEYFRAME_PROPERTIES,
+  removeKeyframe,
+  setKeyframe,
+  setPropertyValue,
+  TRANSFORM_KEYFRAME_PROPERTIES
+} from '@/lib/keyframes';
+import { cn } from '@/lib/utils';
+import TextInspector from './TextInspector';
+
+interface ClipInspectorProps {
+  item: TimelineItem | null;
+  currentTime: number; // Animated properties are shown and edited at the playhead
+  onUpdateItem: (item: TimelineItem) => void;
+}
+
+interface TransformControl {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  get: (transform: ClipTransform) => number;
+  set: (transform: ClipTransform, value: number) => ClipTransform;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const cropControl = (side: keyof ClipTransform['crop'], label: string): TransformControl => ({
+  label,
+  min: 0,
+  max: 0.45,
+  step: 0.01,
+  get: t => t.crop[side],
+  set: (t, value) => ({ ...t, crop: { ...t.crop, [side]: value } }),
+  format: percent
+});
+
+const CROP_CONTROLS: TransformControl[] = [
+  cropControl('top', 'Top'),
+  cropControl('right', 'Right'),
+  cropControl('bottom', 'Bottom'),
+  cropControl('left', 'Left')
+];
+
+interface ReframeControl {
+  label: string;
+  key: keyof ClipReframe;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const REFRAME_CONTROLS: ReframeControl[] = [
+  { label: 'Pan X', key: 'x', min: -1, max: 1, step: 0.01, format: percent },
+  { label: 'Pan Y', key: 'y', min: -1, max: 1, step: 0.01, format: percent },
+  { label: 'Zoom', key: 'zoom', min: 1, max: 4, step: 0.01, format: percent }
+];
+
+// How a clip whose shape differs from the project frame is sized to it
+const FIT_OPTIONS: { value: ClipFit; label: string; description: string }[] = [
+  { value: 'fit', label: 'Fit', description: 'Show the whole clip, with bars where it does not cover the frame' },
+  { value: 'fill', label: 'Fill', description: 'Cover the whole frame, cutting off the edges of the clip' },
+  { value: 'stretch', label: 'Stretch', description: 'Distort the clip to the shape of the frame' }
+];
+
+const ClipInspector: React.FC<ClipInspectorProps> = ({ item, currentTime, onUpdateItem }) => {
+  if (!item || !isVisualItem(item)) {
+    return (
+      <div className="p-4 text-sm text-white/60">
+        Select a video, image or text clip on the timeline to adjust its position, size and crop.
+      </div>
+    );
+  }
+
+  const transform = getClipTransform(item);
+
+  const updateTransform = (next: ClipTransform) => {
+    onUpdateItem({ ...item, transform: next });
+  };
+
+  const reframe = getClipReframe(item);
+  const isText = item.type === 'text';
+
+  const renderSlider = (
+    control: { label: string; min: number; max: number; step: number; format: (value: number) => string },
+    value: number,
+    onChange: (value: number) => void,
+    adornment?: React.ReactNode
+  ) => (
+    <div key={control.label} className="space-y-1">
+      <div className="flex justify-between items-center text-xs text-white/70">
+        <span className="flex items-center gap-1">{adornment}{control.label}</span>
+        <span>{control.format(value)}</span>
+      </div>
+      <Slider
+        value={[value]}
+        min={control.min}
+        max={control.max}
+        step={control.step}
+        onValueChange={([next]) => onChange(next)}
+      />
+    </div>
+  );
+
+  const renderControl = (control: TransformControl) =>
+    renderSlider(control, control.get(transform), value => updateTransform(control.set(transform, value)));
+
+  const isPlayheadInClip = currentTime >= item.start && currentTime <= item.start + item.duration;
+
+  // A transform property, edited at the playhead once it has keyframes
+  const renderAnimatedControl = (property: KeyframeProperty) => {
+    const value = getPropertyValue(item, property, currentTime);
+    const keyframeIndex = findKeyframeAt(item, property, currentTime);
+
+    const toggleKeyframe = () => {
+      if (keyframeIndex < 0) {
+        onUpdateItem(setKeyframe(item, property, getSourceTime(item, currentTime), value));
+      } else if (getKeyframes(item, property).length === 1) {
+        // Without keyframes the property keeps the value it had here
+        onUpdateItem(clearKeyframes(item, property, currentTime));
+      } else {
+        onUpdateItem(removeKeyframe(item, property, keyframeIndex));
+      }
+    };
+
+    const keyframeButton = (
+      <button
+        className={cn(
+          "p-0.5 hover:text-[#D7F266] disabled:opacity-30",
+          isAnimated(item, property) && "text-[#D7F266]"
+        )}
+        onClick={toggleKeyframe}
+        disabled={!isPlayheadInClip}
+        title={keyframeIndex >= 0 ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+      >
+        <Diamond size={10} fill={keyframeIndex >= 0 ? 'currentColor' : 'none'} />
+      </button>
+    );
+
+    return renderSlider(
+      KEYFRAME_PROPERTIES[property],
+      value,
+      next => onUpdateItem(setPropertyValue(item, property, currentTime, next)),
+      keyframeButton
+    );
+  };
+
+  // Resetting also drops the transform's keyframes; volume keeps its own
+  const resetTransform = () => {
+    const keyframes = item.keyframes?.volume ? { volume: item.keyframes.volume } : undefined;
+    onUpdateItem({ ...item, transform: DEFAULT_TRANSFORM, keyframes });
+  };
+
+  const renderReframeControl = (control: ReframeControl) =>
+    renderSlider(control, reframe[control.key], value => onUpdateItem({ ...item, reframe: { ...reframe, [control.key]: value } }));
+
+  return (
+    <div className="p-3 space-y-4 text-[#F7F8F6]">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold truncate" title={item.name}>{item.name}</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-white/70 hover:text-white"
+          onClick={resetTransform}
+          title="Reset transform"
+        >
+          <RotateCcw className="h-3 w-3 mr-1" /> Reset
+        </Button>
+      </div>
+
+      {isText && <TextInspector item={item} onUpdateItem={onUpdateItem} />}
+
+      {!isText && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Frame fit</h4>
+          <div className="grid grid-cols-3 gap-1">
+            {FIT_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                className={cn(
+                  "text-xs rounded py-1 border border-white/20 hover:bg-white/10",
+                  (item.fit ?? 'fit') === option.value && "bg-[#D7F266]/20 border-[#D7F266] text-[#D7F266]"
+                )}
+                onClick={() => onUpdateItem({ ...item, fit: option.value })}
+                title={option.description}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Transform</h4>
+        <p className="text-xs text-white/50">
+          Click a diamond to keyframe that property at the playhead, then move the playhead and change it. Pick it under Curves on the timeline to edit the curve.
+        </p>
+        {TRANSFORM_KEYFRAME_PROPERTIES.map(renderAnimatedControl)}
+      </div>
+
+      {!isText && (
+        <>
+          <div className="space-y-3">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Crop</h4>
+            {CROP_CONTROLS.map(renderControl)}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Reframe</h4>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-white/70 hover:text-white"
+                onClick={() => onUpdateItem({ ...item, reframe: DEFAULT_REFRAME })}
+                title="Centre the reframe window"
+              >
+                Centre
+              </Button>
+            </div>
+            <p className="text-xs text-white/50">
+              The part of the clip kept when exporting to another aspect ratio. Pick that ratio under the preview to check it.
+            </p>
+            {REFRAME_CONTROLS.map(renderReframeControl)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClipInspector;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { CheckCircle, Download, RotateCcw, Trash2, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { useExportJobs } from '@/hooks/use-export-jobs';
+import {
+  cancelExportJob,
+  downloadExportJob,
+  ExportJob,
+  removeExportJob,
+  retryExportJob
+} from '@/lib/exportJobs';
+
+const STATUS_LABELS: Record<ExportJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Exporting',
+  done: 'Ready',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// Exports of this session, newest first, with their progress and actions
+const ExportQueue: React.FC = () => {
+  const jobs = useExportJobs();
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-2 border-t border-white/10 pt-3">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Exports</h4>
+      <div className="max-h-56 overflow-y-auto space-y-2 pr-1">
+        {[...jobs].reverse().map(job => (
+          <div key={job.id} className="rounded bg-[#1A1A19] border border-white/10 p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm truncate" title={job.filename}>{job.filename}</div>
+                <div className={cn(
+                  "text-xs text-white/60 truncate",
+                  job.status === 'failed' && "text-red-400",
+                  job.status === 'done' && "text-green-400"
+                )}>
+                  {STATUS_LABELS[job.status]}
+                  {job.status === 'running' && ` · ${job.stage}`}
+                  {job.status === 'failed' && job.error && ` · ${job.error}`}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {job.status === 'done' && (
+                  <button
+                    className="p-1 text-[#D7F266] hover:text-white"
+                    onClick={() => downloadExportJob(job)}
+                    title="Download"
+                  >
+                    <Download size={14} />
+                  </button>
+                )}
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button
+                    className="p-1 text-white/60 hover:text-white"
+                    onClick={() => cancelExportJob(job.id)}
+                    title="Cancel export"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    className="p-1 text-white/60 hover:text-white"
+                    onClick={() => retryExportJob(job.id)}
+                    title="Export again from the start"
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+                {job.status !== 'running' && job.status !== 'queued' && (
+                  <button
+                    className="p-1 text-white/60 hover:text-white"
+                    onClick={() => removeExportJob(job.id)}
+                    title="Remove from list"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {job.status === 'running' && (
+              <Progress value={job.progress} className="w-full h-1.5 bg-white/10" />
+            )}
+            {(job.status === 'failed' || job.status === 'cancelled') && (
+              <div className="text-xs text-white/50">Exporting again starts over from the beginning</div>
+            )}
+            {job.status === 'done' && (
+              <div className="flex items-center gap-1 text-xs text-white/50">
+                <CheckCircle className="h-3 w-3 text-green-500" /> Kept until you close the editor
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ExportQueue;
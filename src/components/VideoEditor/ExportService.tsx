@@ -1,478 +1,419 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Progress } from '@/components/ui/progress';
-import { CheckCircle, Download, X } from 'lucide-react';
-import { TimelineItem } from './VideoEditor';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy } from 'lucide-react';
+import { ProjectSettings, TimelineItem, TimelineMarker, Track } from './VideoEditor';
 import { toast } from 'sonner';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile } from '@ffmpeg/util';
+import ExportQueue from './ExportQueue';
+import { DEFAULT_PROJECT_SETTINGS, SAMPLE_RATE_OPTIONS, SOCIAL_ASPECT_RATIOS } from '@/lib/projectSettings';
+import { DEFAULT_AUDIO_EXPORT_OPTIONS, isAudioFormat, isReframed as isReframedFor } from '@/lib/exportRenderer';
+import { enqueueExport } from '@/lib/exportJobs';
+import { hasSound } from '@/lib/audioMix';
+import { formatTimecode } from '@/lib/timecode';
+import { chaptersToText, getChapters, getChapterWarnings } from '@/lib/markers';
+import type { PikaAspectRatio } from '@/lib/falai';
 
 // Define export formats and quality presets
-export type ExportFormat = 'mp4' | 'webm' | 'gif';
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | AudioExportFormat;
+export type AudioExportFormat = 'wav' | 'mp3' | 'aac';
 export type ExportQuality = 'draft' | 'standard' | 'high';
-export type ExportSize = '720p' | '1080p' | '480p';
+export type ExportSize = '720p' | '1080p' | '480p' | 'project';
+export type ExportAspectRatio = 'project' | PikaAspectRatio;
 
-interface ExportOptions {
+export interface ExportOptions {
   format: ExportFormat;
   quality: ExportQuality;
   size: ExportSize;
+  aspectRatio: ExportAspectRatio; // Anything but the project's shape reframes every clip
+  range?: ExportRange; // The whole timeline if unset
+  chapters?: boolean; // Write chapter markers into MP4 files
+  audio?: AudioExportOptions; // Only used by the audio formats
 }
 
+export interface AudioExportOptions {
+  bitrate: number; // kbps, for MP3 and AAC
+  sampleRate: number;
+  loudnessTarget: number | null; // Integrated loudness in LUFS, or null to keep the mix as it is
+  stems: boolean; // Also export every track on its own, zipped with the mix
+}
+
+/**
+ * Stretch of the timeline to render, optionally limited to some clips
+ */
+export interface ExportRange {
+  start: number;
+  end: number;
+  itemIds?: string[];
+}
+
+type RangeMode = 'timeline' | 'in-out' | 'selection';
+
+const AUDIO_BITRATES = [128, 192, 256, 320];
+
+const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+  { value: -14, label: '-14 LUFS (music streaming)' },
+  { value: -16, label: '-16 LUFS (podcasts)' },
+  { value: -23, label: '-23 LUFS (broadcast)' }
+];
+
 interface ExportServiceProps {
   isOpen: boolean;
   onClose: () => void;
   timelineItems: TimelineItem[];
+  tracks: Track[];
   projectName: string;
+  settings?: ProjectSettings;
+  markers?: TimelineMarker[];
+  inPoint?: number | null;
+  outPoint?: number | null;
+  selectedIds?: string[];
 }
 
-// Create FFmpeg instance with config
-const ffmpegInstance = new FFmpeg({
-  log: true,
-  corePath: 'https://unpkg.com/@ffmpeg/core@0.12.4/dist/ffmpeg-core.js',
-});
-
-// Flag to track if FFmpeg has been loaded
-let ffmpegLoaded = false;
-
+// Exports run in a background queue, so the dialog can be closed at any time
 const ExportService: React.FC<ExportServiceProps> = ({ 
   isOpen, 
   onClose, 
   timelineItems,
-  projectName 
+  tracks,
+  projectName,
+  settings = DEFAULT_PROJECT_SETTINGS,
+  markers = [],
+  inPoint = null,
+  outPoint = null,
+  selectedIds = []
 }) => {
   const [options, setOptions] = useState<ExportOptions>({
     format: 'mp4',
     quality: 'standard',
-    size: '720p'
+    size: '720p',
+    aspectRatio: 'project',
+    chapters: true
   });
-  const [progress, setProgress] = useState<number>(0);
-  const [stage, setStage] = useState<string>('');
-  const [isExporting, setIsExporting] = useState<boolean>(false);
-  const [isComplete, setIsComplete] = useState<boolean>(false);
-  const [downloadUrl, setDownloadUrl] = useState<string>('');
+  const [rangeMode, setRangeMode] = useState<RangeMode>('timeline');
+  const [audioOptions, setAudioOptions] = useState({ ...DEFAULT_AUDIO_EXPORT_OPTIONS, sampleRate: settings.sampleRate });
+  const isAudioOnly = isAudioFormat(options.format);
   
-  // Get video dimensions based on size selection
-  const getVideoDimensions = (size: ExportSize): { width: number, height: number } => {
-    switch (size) {
-      case '1080p': return { width: 1920, height: 1080 };
-      case '720p': return { width: 1280, height: 720 };
-      case '480p': return { width: 854, height: 480 };
-      default: return { width: 1280, height: 720 };
+  const timelineEnd = Math.max(0, ...timelineItems.map(item => item.start + item.duration));
+  const hasInOut = inPoint !== null || outPoint !== null;
+  const selectedItems = timelineItems.filter(item => selectedIds.includes(item.id));
+  
+  // Offer whatever was picked on the timeline when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setRangeMode(hasInOut ? 'in-out' : 'timeline');
+  }, [isOpen, hasInOut]);
+  
+  // Audio exports start at the project's current sample rate
+  useEffect(() => {
+    if (!isOpen) return;
+    setAudioOptions(prev => ({ ...prev, sampleRate: settings.sampleRate }));
+  }, [isOpen, settings.sampleRate]);
+  
+  const getRange = (): ExportRange | undefined => {
+    if (rangeMode === 'in-out' && hasInOut) {
+      return { start: inPoint ?? 0, end: outPoint ?? timelineEnd };
+    }
+    if (rangeMode === 'selection' && selectedItems.length > 0) {
+      return {
+        start: Math.min(...selectedItems.map(item => item.start)),
+        end: Math.max(...selectedItems.map(item => item.start + item.duration)),
+        itemIds: selectedItems.map(item => item.id)
+      };
     }
+    return undefined;
   };
+  const range = getRange();
   
-  // Get FFmpeg quality settings
-  const getFFmpegQualitySettings = (quality: ExportQuality): string => {
-    switch (quality) {
-      case 'high': return '-crf 18 -preset slow';
-      case 'standard': return '-crf 23 -preset medium';
-      case 'draft': return '-crf 28 -preset ultrafast';
-      default: return '-crf 23 -preset medium';
-    }
+  // Chapter times count from the start of the exported range
+  const chapters = getChapters(markers, { start: range?.start ?? 0, end: range?.end ?? timelineEnd });
+  const chapterText = chaptersToText(chapters);
+  const chapterWarnings = getChapterWarnings(chapters);
+  
+  const copyChapters = () => {
+    navigator.clipboard.writeText(chapterText)
+      .then(() => toast.success('Chapters copied'))
+      .catch(() => toast.error('Failed to copy'));
   };
   
-  // Start export process
-  const startExport = async () => {
+  const isReframed = (aspectRatio: ExportAspectRatio) => isReframedFor(settings, aspectRatio);
+  
+  // Queue an export of the timeline as it is now
+  const startExport = () => {
     if (timelineItems.length === 0) {
       toast.error('Nothing to export', {
         description: 'Add some media to the timeline first.'
       });
       return;
     }
-    
-    setIsExporting(true);
-    setProgress(0);
-    setStage('Initializing FFmpeg');
-    
-    try {
-      // Load FFmpeg if not already loaded
-      if (!ffmpegLoaded) {
-        await ffmpegInstance.load();
-        ffmpegLoaded = true;
-      }
-      
-      // Configure progress tracking - using the updated API pattern
-      const progressCallback = ({ ratio }: { ratio: number }) => {
-        setProgress(Math.floor(ratio * 100));
-      };
-      
-      // Configure logging - using the updated API pattern
-      const loggerCallback = ({ message }: { message: string }) => {
-        console.log('FFmpeg Log:', message);
-      };
-      
-      // Set up progress and logging callbacks
-      ffmpegInstance.setProgress(progressCallback);
-      ffmpegInstance.setLogger(loggerCallback);
-      
-      // Process video items
-      const videoItems = timelineItems.filter(item => item.type === 'video');
-      const audioItems = timelineItems.filter(item => item.type === 'audio');
-      
-      if (videoItems.length === 0) {
-        throw new Error('No video content found in timeline');
-      }
-      
-      setStage('Downloading media files');
-      
-      // Download and process video files
-      let inputFileList: string[] = [];
-      let videoFiles: {name: string, start: number, duration: number}[] = [];
-      
-      // Helper function to create a clean filename from URL
-      const createFilenameFromUrl = (url: string, index: number): string => {
-        return `input_${index}_${Date.now()}.mp4`;
-      };
-      
-      // Process video files
-      for (let i = 0; i < videoItems.length; i++) {
-        const item = videoItems[i];
-        if (!item.src) continue;
-        
-        setStage(`Downloading video ${i+1} of ${videoItems.length}`);
-        setProgress((i / videoItems.length) * 30); // First 30% for downloading
-        
-        try {
-          const response = await fetch(item.src);
-          if (!response.ok) throw new Error(`Failed to fetch ${item.src}`);
-          
-          const data = await response.arrayBuffer();
-          const filename = createFilenameFromUrl(item.src, i);
-          
-          // Write file to FFmpeg virtual filesystem
-          ffmpegInstance.FS('writeFile', filename, new Uint8Array(data));
-          
-          videoFiles.push({
-            name: filename,
-            start: item.start,
-            duration: item.duration
-          });
-          
-          inputFileList.push(filename);
-        } catch (error) {
-          console.error(`Error downloading video ${i+1}:`, error);
-          toast.error(`Error downloading video ${i+1}`, {
-            description: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
-      }
-      
-      // Process audio files
-      const audioFileList: {name: string, start: number, duration: number}[] = [];
-      
-      for (let i = 0; i < audioItems.length; i++) {
-        const item = audioItems[i];
-        if (!item.src) continue;
-        
-        setStage(`Downloading audio ${i+1} of ${audioItems.length}`);
-        setProgress(30 + (i / audioItems.length) * 10); // 30-40% for downloading audio
-        
-        try {
-          const response = await fetch(item.src);
-          if (!response.ok) throw new Error(`Failed to fetch ${item.src}`);
-          
-          const data = await response.arrayBuffer();
-          const filename = `audio_${i}_${Date.now()}.mp3`;
-          
-          // Write file to FFmpeg virtual filesystem
-          ffmpegInstance.FS('writeFile', filename, new Uint8Array(data));
-          
-          audioFileList.push({
-            name: filename,
-            start: item.start,
-            duration: item.duration
-          });
-        } catch (error) {
-          console.error(`Error downloading audio ${i+1}:`, error);
-        }
-      }
-      
-      // Create concatenation list for videos
-      setStage('Preparing video files');
-      setProgress(40);
-      
-      // Sort videos by start time
-      videoFiles.sort((a, b) => a.start - b.start);
-      
-      // Generate concat file for ffmpeg
-      let concatContent = '';
-      
-      for (const video of videoFiles) {
-        concatContent += `file ${video.name}\n`;
-      }
-      
-      ffmpegInstance.FS('writeFile', 'concat_list.txt', new TextEncoder().encode(concatContent));
-      
-      // Concatenate videos
-      setStage('Combining videos');
-      setProgress(50);
-      
-      // Get export settings
-      const dimensions = getVideoDimensions(options.size);
-      const qualitySettings = getFFmpegQualitySettings(options.quality);
-      
-      const outputFilename = `output.${options.format}`;
-      
-      // Build command for concatenating videos
-      await ffmpegInstance.run(
-        '-f', 'concat',
-        '-safe', '0',
-        '-i', 'concat_list.txt',
-        '-c', 'copy',
-        'temp_concat.mp4'
-      );
-      
-      // Mix in audio tracks if available
-      if (audioFileList.length > 0) {
-        setStage('Adding audio tracks');
-        setProgress(70);
-        
-        // Create individual audio files with silence padding for position
-        const audioFilterComplex = audioFileList.map((audio, index) => {
-          // Create silent padding for the start position
-          const silencePad = `[0:a]atrim=0:${audio.start},asetpts=PTS-STARTPTS[silence${index}];`;
-          
-          // Get the audio and trim it to the specified duration
-          const audioIn = `aevalsrc=0:d=${audio.duration}[a${index}];`;
-          
-          return `${silencePad}${audioIn}[silence${index}][a${index}]concat=v=0:a=1[aout${index}];`;
-        }).join('');
-        
-        // Mix all audio tracks together
-        const mixInputs = audioFileList.map((_, index) => `[aout${index}]`).join('');
-        const mixFilter = `${mixInputs}amix=inputs=${audioFileList.length}:duration=longest[aout]`;
-        
-        // Add filter to main command
-        const audioCommand = `-filter_complex "${audioFilterComplex}${mixFilter}" -map 0:v -map "[aout]" -c:v copy -c:a aac -shortest`;
-        
-        await ffmpegInstance.run(
-          '-i', 'temp_concat.mp4',
-          ...audioCommand.split(' '),
-          'temp_with_audio.mp4'
-        );
-      }
-      
-      // Apply final encoding with selected quality/format
-      setStage('Finalizing export');
-      setProgress(80);
-      
-      const inputFile = audioFileList.length > 0 ? 'temp_with_audio.mp4' : 'temp_concat.mp4';
-      
-      // Final encoding with quality settings and dimensions
-      await ffmpegInstance.run(
-        '-i', inputFile,
-        '-s', `${dimensions.width}x${dimensions.height}`,
-        ...qualitySettings.split(' '),
-        outputFilename
-      );
-      
-      // Read the output file
-      setStage('Preparing download');
-      setProgress(95);
-      
-      const data = ffmpegInstance.FS('readFile', outputFilename);
-      
-      // Check if data is available before accessing buffer property
-      if (data) {
-        const blob = new Blob([data.buffer], { type: `video/${options.format}` });
-        
-        // Create download URL
-        const url = URL.createObjectURL(blob);
-        setDownloadUrl(url);
-      } else {
-        throw new Error("Failed to read output file");
-      }
-      
-      // Cleanup
-      setStage('Export complete!');
-      setProgress(100);
-      setIsComplete(true);
-      
-      // Cleanup temporary files
-      inputFileList.forEach(file => {
-        try {
-          ffmpegInstance.FS('unlink', file);
-        } catch (e) {
-          console.warn('Error cleaning up file:', e);
-        }
-      });
-      
-      try {
-        ffmpegInstance.FS('unlink', 'concat_list.txt');
-        ffmpegInstance.FS('unlink', 'temp_concat.mp4');
-        if (audioFileList.length > 0) {
-          ffmpegInstance.FS('unlink', 'temp_with_audio.mp4');
-        }
-        ffmpegInstance.FS('unlink', outputFilename);
-      } catch (e) {
-        console.warn('Error cleaning up file:', e);
-      }
-      
-      toast.success('Export complete!', {
-        description: 'Your video is ready for download.'
-      });
-      
-    } catch (error) {
-      console.error('Export error:', error);
-      toast.error('Export failed', {
-        description: error instanceof Error ? error.message : 'An unknown error occurred'
+    if (isAudioOnly && !timelineItems.some(hasSound)) {
+      toast.error('Nothing to export', {
+        description: 'Add some audio or video to the timeline first.'
       });
-      setIsExporting(false);
+      return;
     }
-  };
-  
-  // Handle download
-  const handleDownload = () => {
-    if (!downloadUrl) return;
-    
-    const link = document.createElement('a');
-    link.href = downloadUrl;
-    
-    // Create safe filename
-    const safeProjectName = projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    link.download = `${safeProjectName}_${timestamp}.${options.format}`;
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-  
-  // Reset export state when closing
-  const handleClose = () => {
-    if (downloadUrl) {
-      URL.revokeObjectURL(downloadUrl);
+    if (range && range.end - range.start <= 0) {
+      toast.error('Nothing to export', {
+        description: 'The in point must come before the out point.'
+      });
+      return;
     }
     
-    // Wait a bit before fully resetting state to avoid UI flashes
-    setTimeout(() => {
-      setIsComplete(false);
-      setIsExporting(false);
-      setProgress(0);
-      setStage('');
-      setDownloadUrl('');
-    }, 300);
-    
-    onClose();
+    const job = enqueueExport({
+      projectName,
+      items: timelineItems.map(item => ({ ...item })),
+      tracks: tracks.map(track => ({ ...track })),
+      settings,
+      markers: markers.map(marker => ({ ...marker })),
+      options: { ...options, range, audio: isAudioOnly ? audioOptions : undefined }
+    });
+    toast.info('Export queued', {
+      description: `${job.filename} will be ready shortly. You can keep editing meanwhile.`
+    });
   };
   
   return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
+    <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[500px] bg-[#151514] border-white/10 text-white">
         <DialogHeader>
-          <DialogTitle className="text-xl font-bold text-white">Export Video</DialogTitle>
+          <DialogTitle className="text-xl font-bold text-white">{isAudioOnly ? 'Export Audio' : 'Export Video'}</DialogTitle>
         </DialogHeader>
         
-        {!isExporting && !isComplete ? (
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="format">Format</Label>
-              <Select 
-                value={options.format} 
-                onValueChange={(value) => setOptions({...options, format: value as ExportFormat})}
-              >
-                <SelectTrigger id="format" className="bg-[#1A1A19] border-white/20">
-                  <SelectValue placeholder="Select format" />
-                </SelectTrigger>
-                <SelectContent className="bg-[#1A1A19] border-white/20">
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="range">Range</Label>
+            <Select 
+              value={rangeMode} 
+              onValueChange={(value) => setRangeMode(value as RangeMode)}
+            >
+              <SelectTrigger id="range" className="bg-[#1A1A19] border-white/20">
+                <SelectValue placeholder="Select range" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A1A19] border-white/20">
+                <SelectItem value="timeline">Whole timeline</SelectItem>
+                <SelectItem value="in-out" disabled={!hasInOut}>In to out point</SelectItem>
+                <SelectItem value="selection" disabled={selectedItems.length === 0}>
+                  Selected clips{selectedItems.length > 0 ? ` (${selectedItems.length})` : ''}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {range && (
+              <p className="text-xs text-white/60">
+                {formatTimecode(range.start, settings.fps)} to {formatTimecode(range.end, settings.fps)}
+                {range.itemIds ? ', other clips left out' : ''}
+              </p>
+            )}
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="format">Format</Label>
+            <Select 
+              value={options.format} 
+              onValueChange={(value) => setOptions({...options, format: value as ExportFormat})}
+            >
+              <SelectTrigger id="format" className="bg-[#1A1A19] border-white/20">
+                <SelectValue placeholder="Select format" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A1A19] border-white/20">
+                <SelectGroup>
+                  <SelectLabel>Video</SelectLabel>
                   <SelectItem value="mp4">MP4</SelectItem>
                   <SelectItem value="webm">WebM</SelectItem>
                   <SelectItem value="gif">GIF</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="quality">Quality</Label>
-              <Select 
-                value={options.quality} 
-                onValueChange={(value) => setOptions({...options, quality: value as ExportQuality})}
-              >
-                <SelectTrigger id="quality" className="bg-[#1A1A19] border-white/20">
-                  <SelectValue placeholder="Select quality" />
-                </SelectTrigger>
-                <SelectContent className="bg-[#1A1A19] border-white/20">
-                  <SelectItem value="draft">Draft (Faster)</SelectItem>
-                  <SelectItem value="standard">Standard</SelectItem>
-                  <SelectItem value="high">High Quality (Slower)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="size">Resolution</Label>
-              <Select 
-                value={options.size} 
-                onValueChange={(value) => setOptions({...options, size: value as ExportSize})}
-              >
-                <SelectTrigger id="size" className="bg-[#1A1A19] border-white/20">
-                  <SelectValue placeholder="Select resolution" />
-                </SelectTrigger>
-                <SelectContent className="bg-[#1A1A19] border-white/20">
-                  <SelectItem value="480p">480p</SelectItem>
-                  <SelectItem value="720p">720p (HD)</SelectItem>
-                  <SelectItem value="1080p">1080p (Full HD)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        ) : isComplete ? (
-          <div className="py-6 flex flex-col items-center justify-center space-y-4">
-            <CheckCircle className="w-16 h-16 text-green-500" />
-            <h3 className="text-lg font-semibold text-center">Export Complete!</h3>
-            <p className="text-white/80 text-center">
-              Your video has been successfully exported. Click the button below to download it.
-            </p>
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Audio only</SelectLabel>
+                  <SelectItem value="wav">WAV</SelectItem>
+                  <SelectItem value="mp3">MP3</SelectItem>
+                  <SelectItem value="aac">AAC</SelectItem>
+                </SelectGroup>
+              </SelectContent>
+            </Select>
           </div>
-        ) : (
-          <div className="py-6 space-y-4">
-            <div className="flex flex-col items-center justify-center space-y-2">
-              <h3 className="text-lg font-semibold">{stage}</h3>
-              <Progress value={progress} className="w-full h-2 bg-white/10" />
-              <p className="text-sm text-white/70">{progress}% complete</p>
-            </div>
-            <p className="text-white/60 text-sm text-center">
-              This may take several minutes depending on your project size and export quality.
-              <br />
-              Please don't close this window.
-            </p>
-          </div>
-        )}
-        
-        <DialogFooter>
-          {!isExporting && !isComplete ? (
+          
+          {isAudioOnly ? (
             <>
-              <Button variant="outline" onClick={handleClose}>Cancel</Button>
-              <Button 
-                onClick={startExport} 
-                className="bg-[#D7F266] text-[#151514] hover:bg-[#D7F266]/80"
-              >
-                Export
-              </Button>
+              {options.format !== 'wav' && (
+                <div className="space-y-2">
+                  <Label htmlFor="bitrate">Bitrate</Label>
+                  <Select 
+                    value={String(audioOptions.bitrate)} 
+                    onValueChange={(value) => setAudioOptions({...audioOptions, bitrate: Number(value)})}
+                  >
+                    <SelectTrigger id="bitrate" className="bg-[#1A1A19] border-white/20">
+                      <SelectValue placeholder="Select bitrate" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[#1A1A19] border-white/20">
+                      {AUDIO_BITRATES.map(bitrate => (
+                        <SelectItem key={bitrate} value={String(bitrate)}>{bitrate} kbps</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              
+              <div className="space-y-2">
+                <Label htmlFor="sample-rate">Sample rate</Label>
+                <Select 
+                  value={String(audioOptions.sampleRate)} 
+                  onValueChange={(value) => setAudioOptions({...audioOptions, sampleRate: Number(value)})}
+                >
+                  <SelectTrigger id="sample-rate" className="bg-[#1A1A19] border-white/20">
+                    <SelectValue placeholder="Select sample rate" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A1A19] border-white/20">
+                    {SAMPLE_RATE_OPTIONS.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{(rate / 1000).toFixed(1)} kHz</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="loudness">Loudness</Label>
+                <Select 
+                  value={audioOptions.loudnessTarget === null ? 'off' : String(audioOptions.loudnessTarget)} 
+                  onValueChange={(value) => setAudioOptions({...audioOptions, loudnessTarget: value === 'off' ? null : Number(value)})}
+                >
+                  <SelectTrigger id="loudness" className="bg-[#1A1A19] border-white/20">
+                    <SelectValue placeholder="Select loudness" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A1A19] border-white/20">
+                    <SelectItem value="off">As mixed</SelectItem>
+                    {LOUDNESS_TARGETS.map(({ value, label }) => (
+                      <SelectItem key={value} value={String(value)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="stems">Track stems</Label>
+                  <p className="text-xs text-white/60">Adds every track on its own, at mix levels, in a zip with the mix.</p>
+                </div>
+                <Switch
+                  id="stems"
+                  checked={audioOptions.stems}
+                  onCheckedChange={(checked) => setAudioOptions({...audioOptions, stems: checked})}
+                />
+              </div>
             </>
-          ) : isComplete ? (
+          ) : (
             <>
-              <Button variant="outline" onClick={handleClose}>Close</Button>
-              <Button 
-                onClick={handleDownload}
-                className="bg-[#D7F266] text-[#151514] hover:bg-[#D7F266]/80 flex items-center gap-2"
-              >
-                <Download className="h-4 w-4" /> Download Video
-              </Button>
+              <div className="space-y-2">
+                <Label htmlFor="quality">Quality</Label>
+                <Select 
+                  value={options.quality} 
+                  onValueChange={(value) => setOptions({...options, quality: value as ExportQuality})}
+                >
+                  <SelectTrigger id="quality" className="bg-[#1A1A19] border-white/20">
+                    <SelectValue placeholder="Select quality" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A1A19] border-white/20">
+                    <SelectItem value="draft">Draft (Faster)</SelectItem>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    <SelectItem value="high">High Quality (Slower)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="aspect-ratio">Aspect ratio</Label>
+                <Select 
+                  value={options.aspectRatio} 
+                  onValueChange={(value) => setOptions({...options, aspectRatio: value as ExportAspectRatio})}
+                >
+                  <SelectTrigger id="aspect-ratio" className="bg-[#1A1A19] border-white/20">
+                    <SelectValue placeholder="Select aspect ratio" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A1A19] border-white/20">
+                    <SelectItem value="project">Project ({settings.aspectRatio === 'custom' ? `${settings.width}x${settings.height}` : settings.aspectRatio})</SelectItem>
+                    {SOCIAL_ASPECT_RATIOS.map(({ ratio, label }) => (
+                      <SelectItem key={ratio} value={ratio}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isReframed(options.aspectRatio) && (
+                  <p className="text-xs text-white/60">
+                    Clips are centre-cropped to fill the frame. Adjust each clip's reframe window in the inspector.
+                  </p>
+                )}
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="size">Resolution</Label>
+                <Select 
+                  value={options.size} 
+                  onValueChange={(value) => setOptions({...options, size: value as ExportSize})}
+                >
+                  <SelectTrigger id="size" className="bg-[#1A1A19] border-white/20">
+                    <SelectValue placeholder="Select resolution" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A1A19] border-white/20">
+                    <SelectItem value="480p">480p</SelectItem>
+                    <SelectItem value="720p">720p (HD)</SelectItem>
+                    <SelectItem value="1080p">1080p (Full HD)</SelectItem>
+                    <SelectItem value="project">
+                      {isReframed(options.aspectRatio) ? 'Project resolution' : `Project size (${settings.width}x${settings.height})`}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {chapters.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="chapters">Chapters</Label>
+                      <p className="text-xs text-white/60">
+                        {options.format === 'mp4'
+                          ? `Writes ${chapters.length} chapter${chapters.length === 1 ? '' : 's'} into the file.`
+                          : 'Only MP4 files hold chapters.'}
+                      </p>
+                    </div>
+                    <Switch
+                      id="chapters"
+                      checked={options.format === 'mp4' && options.chapters}
+                      onCheckedChange={(checked) => setOptions({...options, chapters: checked})}
+                      disabled={options.format !== 'mp4'}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="chapter-text" className="text-xs text-white/60">YouTube description chapters</Label>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={copyChapters}>
+                      <Copy size={12} className="mr-1" /> Copy
+                    </Button>
+                  </div>
+                  <Textarea
+                    id="chapter-text"
+                    readOnly
+                    value={chapterText}
+                    rows={Math.min(5, chapters.length)}
+                    className="bg-[#1A1A19] border-white/20 text-xs font-mono resize-none"
+                  />
+                  {chapterWarnings.map(warning => (
+                    <p key={warning} className="text-xs text-amber-300/80">{warning}</p>
+                  ))}
+                </div>
+              )}
             </>
-          ) : (
-            <Button 
-              variant="outline" 
-              onClick={handleClose} 
-              className="flex items-center gap-2"
-              disabled={isExporting && progress < 100}
-            >
-              <X className="h-4 w-4" /> Cancel
-            </Button>
           )}
+        </div>
+        
+        <ExportQueue />
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button 
+            onClick={startExport} 
+            className="bg-[#D7F266] text-[#151514] hover:bg-[#D7F266]/80"
+          >
+            Export
+          </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import { TimelineItem } from './VideoEditor';
+import { getClipFades } from '@/lib/audioMix';
+import { cn } from '@/lib/utils';
+
+interface FadeHandlesProps {
+  item: TimelineItem;
+  scale: number; // Pixels per second
+  height: number;
+  locked: boolean;
+  onChange: (item: TimelineItem) => void;
+}
+
+// Fades shorter than this are dropped, in seconds
+const MIN_FADE = 0.02;
+
+// Handles in a clip's top corners that drag its audio fade-in and fade-out,
+// with the fades drawn as ramps over the clip
+const FadeHandles: React.FC<FadeHandlesProps> = ({ item, scale, height, locked, onChange }) => {
+  const dragRef = useRef<{ edge: 'in' | 'out'; startX: number; item: TimelineItem } | null>(null);
+  const { fadeIn, fadeOut } = getClipFades(item);
+  const width = item.duration * scale;
+  const inX = fadeIn * scale;
+  const outX = width - fadeOut * scale;
+
+  const handleDragMove = (e: MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const fades = getClipFades(drag.item);
+    const delta = (e.clientX - drag.startX) / scale;
+
+    // Each fade can grow until it meets the other
+    if (drag.edge === 'in') {
+      const next = Math.min(drag.item.duration - fades.fadeOut, Math.max(0, fades.fadeIn + delta));
+      onChange({ ...drag.item, fadeIn: next < MIN_FADE ? undefined : next });
+    } else {
+      const next = Math.min(drag.item.duration - fades.fadeIn, Math.max(0, fades.fadeOut - delta));
+      onChange({ ...drag.item, fadeOut: next < MIN_FADE ? undefined : next });
+    }
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+    document.removeEventListener('mousemove', handleDragMove);
+    document.removeEventListener('mouseup', handleDragEnd);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent, edge: 'in' | 'out') => {
+    e.stopPropagation();
+    if (e.button !== 0 || locked) return;
+    e.preventDefault();
+    dragRef.current = { edge, startX: e.clientX, item };
+    document.addEventListener('mousemove', handleDragMove);
+    document.addEventListener('mouseup', handleDragEnd);
+  };
+
+  const renderHandle = (edge: 'in' | 'out', x: number, seconds: number) => (
+    <div
+      className={cn(
+        "absolute top-0 w-2.5 h-2.5 -ml-[5px] rounded-full bg-white border border-[#151514] pointer-events-auto",
+        locked ? "hidden" : "cursor-ew-resize opacity-0 group-hover:opacity-100",
+        seconds > 0 && "opacity-100"
+      )}
+      style={{ left: `${x}px` }}
+      onMouseDown={(e) => handleMouseDown(e, edge)}
+      onClick={(e) => e.stopPropagation()}
+      title={seconds > 0 ? `Fade ${edge}: ${seconds.toFixed(2)}s` : `Drag to fade ${edge}`}
+    />
+  );
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <svg className="absolute inset-0" width={width} height={height}>
+        {fadeIn > 0 && <polygon points={`0,0 ${inX},0 0,${height}`} className="fill-black/40" />}
+        {fadeIn > 0 && <line x1={0} y1={height} x2={inX} y2={0} className="stroke-white/70" strokeWidth={1} />}
+        {fadeOut > 0 && <polygon points={`${outX},0 ${width},0 ${width},${height}`} className="fill-black/40" />}
+        {fadeOut > 0 && <line x1={outX} y1={0} x2={width} y2={height} className="stroke-white/70" strokeWidth={1} />}
+      </svg>
+      {renderHandle('in', Math.max(5, inX), fadeIn)}
+      {renderHandle('out', Math.min(width - 5, outX), fadeOut)}
+    </div>
+  );
+};
+
+export default FadeHandles;
@@ -2,18 +2,29 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { Save, Download, User, LogIn, Settings } from 'lucide-react';
+import { Save, Download, User, LogIn, Settings, Package, FolderInput, ChevronDown, SlidersHorizontal } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BUNDLE_EXTENSION } from '@/lib/projectBundle';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useExportJobs } from '@/hooks/use-export-jobs';
 
 interface HeaderProps {
   projectName: string;
   onRename: (name: string) => void;
   onSave: () => void;
   onExport: () => void;
+  onExportBundle: () => void;
+  onImportBundle: (file: File) => void;
+  onOpenSettings: () => void;
   isSaving?: boolean;
 }
 
@@ -22,8 +33,12 @@ const Header: React.FC<HeaderProps> = ({
   onRename,
   onSave,
   onExport,
+  onExportBundle,
+  onImportBundle,
+  onOpenSettings,
   isSaving = false
 }) => {
+  const bundleInputRef = React.useRef<HTMLInputElement>(null);
   const [editMode, setEditMode] = useState(false);
   const [tempName, setTempName] = useState(projectName);
   const [showLogin, setShowLogin] = useState(false);
@@ -34,6 +49,7 @@ const Header: React.FC<HeaderProps> = ({
   const [falaiApiKey, setFalaiApiKey] = useState<string>('');
   const [showApiKeyInput, setShowApiKeyInput] = useState<boolean>(false);
   const { signIn, signOut } = useAuth();
+  const activeExports = useExportJobs().filter(job => job.status === 'queued' || job.status === 'running').length;
   
   React.useEffect(() => {
     const checkUser = async () => {
@@ -196,16 +212,72 @@ const Header: React.FC<HeaderProps> = ({
           )}
         </Button>
         
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onOpenSettings}
+          className="text-white hover:bg-[#242423] hover:text-[#C9FF00]"
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Project
+        </Button>
+        
         <Button 
           variant="outline" 
           size="sm" 
           onClick={onExport}
           className="text-white border-white/20 hover:bg-[#242423] hover:text-[#C9FF00]"
         >
-          <Download className="h-4 w-4 mr-2" />
-          Export
+          {activeExports > 0 ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Exporting ({activeExports})
+            </>
+          ) : (
+            <>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </>
+          )}
         </Button>
         
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white hover:bg-[#242423] hover:text-[#C9FF00]"
+            >
+              <Package className="h-4 w-4 mr-2" />
+              Bundle
+              <ChevronDown className="h-3 w-3 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="bg-[#151514] border-white/10 text-white">
+            <DropdownMenuItem className="cursor-pointer" onClick={onExportBundle}>
+              <Package className="h-4 w-4 mr-2" />
+              Export project bundle
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => bundleInputRef.current?.click()}>
+              <FolderInput className="h-4 w-4 mr-2" />
+              Import bundle
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <input
+          ref={bundleInputRef}
+          type="file"
+          accept={`${BUNDLE_EXTENSION},application/zip`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              onImportBundle(file);
+            }
+            e.target.value = '';
+          }}
+        />
+        
         <Button
           variant="ghost"
           size="sm"
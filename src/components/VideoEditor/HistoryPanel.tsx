@@ -0,0 +1,51 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { EditHistory } from '@/lib/editHistory';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onJump: (index: number) => void;
+}
+
+// Lists every recorded edit; clicking one restores the project to just after it
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+  const entries = [
+    { key: 'initial', label: 'Opened project', index: 0 },
+    ...history.commands.map((command, i) => ({ key: String(command.id), label: command.label, index: i + 1 }))
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mr-1"
+          title="Edit history"
+        >
+          <History size={14} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-1 bg-[#151514] border-white/10 text-[#F7F8F6]">
+        <div className="px-2 py-1 text-xs font-semibold uppercase tracking-wide text-white/50">History</div>
+        <div className="max-h-64 overflow-y-auto">
+          {[...entries].reverse().map(entry => (
+            <button
+              key={entry.key}
+              className={cn(
+                "w-full text-left text-xs px-2 py-1 rounded hover:bg-white/10",
+                entry.index === history.index && "bg-[#D7F266]/20 text-[#D7F266]",
+                entry.index > history.index && "text-white/40"
+              )}
+              onClick={() => onJump(entry.index)}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default HistoryPanel;
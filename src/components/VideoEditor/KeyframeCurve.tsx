@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import { KeyframeProperty, TimelineItem } from './VideoEditor';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuTrigger } from '@/components/ui/context-menu';
+import {
+  getKeyframes,
+  getPropertyValue,
+  KEYFRAME_INTERPOLATIONS,
+  KEYFRAME_PROPERTIES,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe
+} from '@/lib/keyframes';
+import { cn } from '@/lib/utils';
+
+interface KeyframeCurveProps {
+  item: TimelineItem;
+  property: KeyframeProperty;
+  scale: number; // Pixels per second
+  height: number;
+  locked: boolean;
+  onChange: (item: TimelineItem) => void;
+}
+
+const PADDING = 4; // Keeps the ends of the range clear of the clip's edges, in pixels
+const SAMPLE_SPACING = 4; // Pixels between points of the drawn curve
+
+// A clip property drawn as a curve over the clip. Double-click the curve to
+// add a keyframe, drag keyframes to move them, right-click one for more.
+const KeyframeCurve: React.FC<KeyframeCurveProps> = ({ item, property, scale, height, locked, onChange }) => {
+  const dragRef = useRef<{ index: number; startX: number; startY: number; item: TimelineItem } | null>(null);
+  const info = KEYFRAME_PROPERTIES[property];
+  const keyframes = getKeyframes(item, property);
+  const width = item.duration * scale;
+  const trimStart = item.trimStart || 0;
+  const range = height - PADDING * 2;
+
+  const toX = (sourceTime: number) => (sourceTime - trimStart) * scale;
+  const toY = (value: number) => PADDING + (1 - (value - info.min) / (info.max - info.min)) * range;
+
+  // Sample the curve, with a point on every keyframe so corners stay sharp
+  const xs = new Set<number>();
+  for (let x = 0; x < width; x += SAMPLE_SPACING) xs.add(x);
+  xs.add(width);
+  keyframes.forEach((keyframe, index) => {
+    const x = toX(keyframe.time);
+    if (x < 0 || x > width) return;
+    xs.add(x);
+    // Holds jump just before the next keyframe
+    if (index > 0 && keyframes[index - 1].interpolation === 'hold') xs.add(Math.max(0, x - 0.01));
+  });
+  const points = [...xs]
+    .sort((a, b) => a - b)
+    .map(x => `${x.toFixed(2)},${toY(getPropertyValue(item, property, item.start + x / scale)).toFixed(2)}`)
+    .join(' ');
+
+  const handleDragMove = (e: MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const start = getKeyframes(drag.item, property)[drag.index];
+    // Shift keeps the keyframe at its time
+    const time = e.shiftKey ? start.time : start.time + (e.clientX - drag.startX) / scale;
+    const value = start.value - ((e.clientY - drag.startY) / range) * (info.max - info.min);
+    onChange(updateKeyframe(drag.item, property, drag.index, { time, value }));
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+    document.removeEventListener('mousemove', handleDragMove);
+    document.removeEventListener('mouseup', handleDragEnd);
+  };
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    if (e.button !== 0 || locked) return;
+    e.preventDefault();
+    dragRef.current = { index, startX: e.clientX, startY: e.clientY, item };
+    document.addEventListener('mousemove', handleDragMove);
+    document.addEventListener('mouseup', handleDragEnd);
+  };
+
+  const handleCurveDoubleClick = (e: React.MouseEvent<SVGPolylineElement>) => {
+    e.stopPropagation();
+    if (locked) return;
+    const svg = e.currentTarget.ownerSVGElement;
+    if (!svg) return;
+    const time = item.start + (e.clientX - svg.getBoundingClientRect().left) / scale;
+    onChange(setKeyframe(item, property, trimStart + (time - item.start), getPropertyValue(item, property, time)));
+  };
+
+  return (
+    <div className={cn("absolute inset-0 pointer-events-none", locked && "opacity-60")}>
+      <svg className="absolute inset-0 overflow-visible" width={width} height={height}>
+        <polyline points={points} fill="none" stroke="#D7F266" strokeWidth={1.5} />
+        {/* Wider invisible line that is easier to hit */}
+        <polyline
+          points={points}
+          fill="none"
+          stroke="transparent"
+          strokeWidth={10}
+          className={cn(!locked && "cursor-copy")}
+          style={{ pointerEvents: locked ? 'none' : 'stroke' }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={handleCurveDoubleClick}
+        >
+          <title>{`${info.label}: double-click to add a keyframe`}</title>
+        </polyline>
+      </svg>
+
+      {keyframes.map((keyframe, index) => {
+        const x = toX(keyframe.time);
+        if (x < 0 || x > width) return null;
+        return (
+          <ContextMenu key={index}>
+            <ContextMenuTrigger asChild disabled={locked}>
+              <div
+                className={cn(
+                  "absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 border border-[#151514]",
+                  keyframe.interpolation === 'hold' ? "bg-white" : "bg-[#D7F266]",
+                  !locked && "pointer-events-auto cursor-grab hover:scale-125"
+                )}
+                style={{ left: `${x}px`, top: `${toY(keyframe.value)}px` }}
+                onMouseDown={(e) => handleKeyframeMouseDown(e, index)}
+                onClick={(e) => e.stopPropagation()}
+                title={`${info.label} ${info.format(keyframe.value)}`}
+              />
+            </ContextMenuTrigger>
+            <ContextMenuContent>
+              {KEYFRAME_INTERPOLATIONS.map(option => (
+                <ContextMenuItem
+                  key={option.value}
+                  onSelect={() => onChange(updateKeyframe(item, property, index, { interpolation: option.value }))}
+                >
+                  {keyframe.interpolation === option.value ? '✓ ' : ''}{option.label} to next keyframe
+                </ContextMenuItem>
+              ))}
+              <ContextMenuSeparator />
+              <ContextMenuItem onSelect={() => onChange(removeKeyframe(item, property, index))}>
+                Delete keyframe
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
+        );
+      })}
+    </div>
+  );
+};
+
+export default KeyframeCurve;
@@ -0,0 +1,207 @@
+import React, { useRef, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { TimelineMarker } from './VideoEditor';
+import { MARKER_COLORS } from '@/lib/markers';
+import { snapToFrame } from '@/lib/timecode';
+import { cn } from '@/lib/utils';
+
+interface MarkerFlagProps {
+  marker: TimelineMarker;
+  left: number; // Position of the marker in its container, in pixels
+  scale: number; // Pixels per second
+  fps: number;
+  minTime: number; // Range the marker can be dragged within, in its own time
+  maxTime: number;
+  locked: boolean;
+  placement: 'ruler' | 'clip';
+  onChange: (marker: TimelineMarker, coalesceKey?: string) => void;
+  onRemove: () => void;
+  onSelect: () => void; // Clicked, to move the playhead to it
+}
+
+// A marker drawn as a flag, with a band for the region it covers. Drag it to
+// move it; click it to edit its name, colour, note, length and chapter.
+const MarkerFlag: React.FC<MarkerFlagProps> = ({
+  marker,
+  left,
+  scale,
+  fps,
+  minTime,
+  maxTime,
+  locked,
+  placement,
+  onChange,
+  onRemove,
+  onSelect
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dragRef = useRef<{ startX: number; marker: TimelineMarker; moved: boolean } | null>(null);
+  const movedRef = useRef(false);
+  const coalesceKey = `marker-${marker.id}`;
+  const width = marker.duration * scale;
+
+  const update = (changes: Partial<TimelineMarker>) => onChange({ ...marker, ...changes }, coalesceKey);
+
+  const handleDragMove = (e: MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (e.clientX - drag.startX) / scale;
+    if (!drag.moved && Math.abs(e.clientX - drag.startX) < 3) return;
+    drag.moved = true;
+    const time = snapToFrame(Math.min(maxTime, Math.max(minTime, drag.marker.time + delta)), fps);
+    onChange({ ...drag.marker, time }, coalesceKey);
+  };
+
+  const handleDragEnd = () => {
+    movedRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+    document.removeEventListener('mousemove', handleDragMove);
+    document.removeEventListener('mouseup', handleDragEnd);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (e.button !== 0 || locked) return;
+    e.preventDefault();
+    dragRef.current = { startX: e.clientX, marker, moved: false };
+    document.addEventListener('mousemove', handleDragMove);
+    document.addEventListener('mouseup', handleDragEnd);
+  };
+
+  const title = [marker.name, marker.note].filter(Boolean).join('\n');
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      {marker.duration > 0 && (
+        <div
+          className={cn(
+            "absolute h-1 opacity-60 pointer-events-none",
+            placement === 'ruler' ? "bottom-0" : "bottom-0.5"
+          )}
+          style={{ left: `${left}px`, width: `${width}px`, backgroundColor: marker.color }}
+        />
+      )}
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "absolute z-20 w-2.5 -ml-px rounded-tr-sm rounded-br-sm border-l-2",
+            placement === 'ruler' ? "top-0 h-3" : "bottom-0.5 h-2.5",
+            locked ? "cursor-default" : "cursor-grab"
+          )}
+          style={{ left: `${left}px`, backgroundColor: marker.color, borderColor: marker.color }}
+          onMouseDown={handleMouseDown}
+          onClick={(e) => {
+            e.stopPropagation();
+            e.preventDefault();
+            if (movedRef.current) {
+              movedRef.current = false;
+              return;
+            }
+            onSelect();
+            setIsOpen(true);
+          }}
+          title={title}
+        >
+          {marker.chapter && <span className="absolute -top-px left-0.5 text-[8px] font-bold leading-3 text-[#151514]">C</span>}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent
+        align="start"
+        className="w-64 p-3 space-y-3 bg-[#151514] border-white/10 text-[#F7F8F6]"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+        onContextMenu={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">
+            {placement === 'ruler' ? 'Marker' : 'Clip marker'}
+          </h4>
+          <button
+            className="p-1 text-white/60 hover:text-red-400 disabled:opacity-40"
+            onClick={() => {
+              setIsOpen(false);
+              onRemove();
+            }}
+            disabled={locked}
+            title="Delete marker"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+
+        <Input
+          value={marker.name}
+          onChange={(e) => update({ name: e.target.value })}
+          disabled={locked}
+          className="h-8 bg-[#1A1A19] border-white/20 text-sm"
+          placeholder="Name"
+        />
+
+        <div className="flex gap-1">
+          {MARKER_COLORS.map(color => (
+            <button
+              key={color}
+              className={cn(
+                "w-5 h-5 rounded-full border-2 disabled:opacity-40",
+                marker.color === color ? "border-white" : "border-transparent"
+              )}
+              style={{ backgroundColor: color }}
+              onClick={() => update({ color })}
+              disabled={locked}
+              title={color}
+            />
+          ))}
+        </div>
+
+        <Textarea
+          value={marker.note}
+          onChange={(e) => update({ note: e.target.value })}
+          disabled={locked}
+          rows={3}
+          className="bg-[#1A1A19] border-white/20 text-sm resize-none"
+          placeholder="Note"
+        />
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor={`marker-duration-${marker.id}`} className="text-xs text-white/70">Length (seconds)</Label>
+          <Input
+            id={`marker-duration-${marker.id}`}
+            type="number"
+            min={0}
+            step={0.1}
+            value={Number(marker.duration.toFixed(2))}
+            onChange={(e) => update({ duration: Math.max(0, Number(e.target.value) || 0) })}
+            disabled={locked}
+            className="h-8 w-20 bg-[#1A1A19] border-white/20 text-xs"
+          />
+        </div>
+        {marker.duration === 0 && (
+          <p className="text-xs text-white/50">Give the marker a length to comment on a region.</p>
+        )}
+
+        {placement === 'ruler' && (
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor={`marker-chapter-${marker.id}`} className="text-xs">Chapter</Label>
+              <p className="text-xs text-white/50">Starts a chapter in exported video.</p>
+            </div>
+            <Switch
+              id={`marker-chapter-${marker.id}`}
+              checked={marker.chapter}
+              onCheckedChange={(chapter) => update({ chapter })}
+              disabled={locked}
+            />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MarkerFlag;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Film, Music, Mic } from 'lucide-react';
+import { Blend, Film, Music, Mic, SlidersHorizontal, TextIcon } from 'lucide-react';
 import MediaLibrary from './MediaLibrary';
 import { TimelineItem } from './VideoEditor';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -7,19 +7,33 @@ import AudioExtractor from './AudioExtractor';
 import VoiceoverGenerator from './VoiceoverGenerator';
 import SoundEffectsGenerator from './SoundEffectsGenerator';
 import VideoGenerator from './VideoGenerator';
+import ClipInspector from './ClipInspector';
+import TextLibrary from './TextLibrary';
+import TransitionLibrary from './TransitionLibrary';
+import { TextPreset } from '@/lib/textOverlay';
 
 interface MediaSidebarProps {
   activeTab: string;
   setActiveTab: (tab: string) => void;
   onAddToTimeline: (item: TimelineItem) => void;
+  onAddText: (preset: TextPreset) => void;
   selectedVideo: TimelineItem | null;
+  selectedItem: TimelineItem | null;
+  currentTime: number;
+  onUpdateItem: (item: TimelineItem) => void;
+  onLinkItems: (ids: string[]) => void;
 }
 
 const MediaSidebar: React.FC<MediaSidebarProps> = ({
   activeTab,
   setActiveTab,
   onAddToTimeline,
-  selectedVideo
+  onAddText,
+  selectedVideo,
+  selectedItem,
+  currentTime,
+  onUpdateItem,
+  onLinkItems
 }) => {
   return (
     <div className="flex flex-col h-full bg-[#151514]">
@@ -43,6 +57,27 @@ const MediaSidebar: React.FC<MediaSidebarProps> = ({
         >
           <Mic size={16} />
         </button>
+        <button 
+          className={`p-2 rounded-full flex items-center justify-center ${activeTab === 'text' ? 'bg-[#D7F266] text-[#151514]' : 'bg-white/10 text-white'}`}
+          onClick={() => setActiveTab('text')}
+          title="Text"
+        >
+          <TextIcon size={16} />
+        </button>
+        <button 
+          className={`p-2 rounded-full flex items-center justify-center ${activeTab === 'transitions' ? 'bg-[#D7F266] text-[#151514]' : 'bg-white/10 text-white'}`}
+          onClick={() => setActiveTab('transitions')}
+          title="Transitions"
+        >
+          <Blend size={16} />
+        </button>
+        <button 
+          className={`p-2 rounded-full flex items-center justify-center ${activeTab === 'inspector' ? 'bg-[#D7F266] text-[#151514]' : 'bg-white/10 text-white'}`}
+          onClick={() => setActiveTab('inspector')}
+          title="Clip inspector"
+        >
+          <SlidersHorizontal size={16} />
+        </button>
       </div>
       
       {/* Media Library - Update visuals tab to include video generation */}
@@ -71,7 +106,7 @@ const MediaSidebar: React.FC<MediaSidebarProps> = ({
             <TabsContent value="library" className="h-[calc(100%-2rem)] overflow-y-auto">
               <div className="flex flex-col h-full">
                 <MediaLibrary onAddToTimeline={onAddToTimeline} mediaType="audio" />
-                <AudioExtractor videoItem={selectedVideo} onAddExtractedAudio={onAddToTimeline} />
+                <AudioExtractor videoItem={selectedVideo} onAddExtractedAudio={onAddToTimeline} onLinkItems={onLinkItems} />
               </div>
             </TabsContent>
             <TabsContent value="effects" className="h-[calc(100%-2rem)] overflow-y-auto">
@@ -83,6 +118,24 @@ const MediaSidebar: React.FC<MediaSidebarProps> = ({
         {activeTab === 'voiceover' && (
           <VoiceoverGenerator onAddToTimeline={onAddToTimeline} />
         )}
+        
+        {activeTab === 'text' && (
+          <div className="h-full overflow-y-auto">
+            <TextLibrary onAddText={onAddText} />
+          </div>
+        )}
+        
+        {activeTab === 'transitions' && (
+          <div className="h-full overflow-y-auto">
+            <TransitionLibrary />
+          </div>
+        )}
+        
+        {activeTab === 'inspector' && (
+          <div className="h-full overflow-y-auto">
+            <ClipInspector item={selectedItem} currentTime={currentTime} onUpdateItem={onUpdateItem} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,23 +3,54 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { TimelineItem } from '../VideoEditor';
 import { toast } from 'sonner';
 import { getBlobFromIndexedDB } from '@/lib/groqTTS';
+import { getAudioContext, PlaybackClock, syncMediaElement } from '@/lib/playbackClock';
+import { getPropertyValue } from '@/lib/keyframes';
+import { getClipFades, getFadeGain } from '@/lib/audioMix';
+import { getSourceSpan } from '@/lib/timelineEdits';
 
 interface AudioManagerProps {
   activeAudios: TimelineItem[];
   currentTime: number;
   isPlaying: boolean;
+  playbackRate: number;
+  clock?: PlaybackClock;
   volume: number;
   muted: boolean;
 }
 
+// Ramp a clip's fades on a gain from timeline time `time` onwards, so Web
+// Audio moves them smoothly between updates rather than in steps
+const scheduleFades = (param: AudioParam, item: TimelineItem, time: number, now: number, rate: number, playing: boolean) => {
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(getFadeGain(item, time), now);
+  if (!playing) return;
+
+  const { fadeIn, fadeOut } = getClipFades(item);
+  const at = (timelineTime: number) => now + (timelineTime - time) / rate;
+  const fadeInEnd = item.start + fadeIn;
+  const fadeOutStart = item.start + item.duration - fadeOut;
+  const end = item.start + item.duration;
+
+  if (fadeIn > 0 && time < fadeInEnd) param.linearRampToValueAtTime(1, at(fadeInEnd));
+  if (fadeOut > 0 && time < end) {
+    if (time < fadeOutStart) param.setValueAtTime(1, at(fadeOutStart));
+    param.linearRampToValueAtTime(0, at(end));
+  }
+};
+
 const AudioManager: React.FC<AudioManagerProps> = ({
   activeAudios,
   currentTime,
   isPlaying,
+  playbackRate,
+  clock,
   volume,
   muted
 }) => {
   const audioRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
+  // Each element plays through a fade gain and a volume gain, so fades ramp
+  // and volume follows keyframes smoothly
+  const gainNodes = useRef<Map<string, { fade: GainNode; volume: GainNode }>>(new Map());
   const [loadedAudios, setLoadedAudios] = useState<Set<string>>(new Set());
   const [audioStates, setAudioStates] = useState<Map<string, 'loading' | 'error' | 'ready'>>(new Map());
   const lastPlayPositions = useRef<Map<string, number>>(new Map());
@@ -137,6 +168,21 @@ const AudioManager: React.FC<AudioManagerProps> = ({
       }
       
       audioElement.load();
+      
+      // Route through Web Audio for the clip's gain; without it, the element's own volume is used
+      const context = getAudioContext();
+      if (context) {
+        try {
+          const fade = context.createGain();
+          const gain = context.createGain();
+          context.createMediaElementSource(audioElement).connect(fade).connect(gain).connect(context.destination);
+          gainNodes.current.get(audio.id)?.volume.disconnect();
+          gainNodes.current.set(audio.id, { fade, volume: gain });
+        } catch (error) {
+          console.error('Could not route audio through Web Audio:', audio.id, error);
+        }
+      }
+      
       return audioElement;
     } catch (error) {
       console.error('Error setting audio source:', error);
@@ -193,6 +239,8 @@ const AudioManager: React.FC<AudioManagerProps> = ({
         audio.pause();
         audio.src = '';
         audioRefs.current.delete(id);
+        gainNodes.current.get(id)?.volume.disconnect();
+        gainNodes.current.delete(id);
         
         // Clean up state
         setLoadedAudios(prev => {
@@ -213,108 +261,67 @@ const AudioManager: React.FC<AudioManagerProps> = ({
     });
   }, [activeAudios, createAudioElement]);
 
-  // Improved playback handling with better position tracking and precise seeking
+  // Keep every audio clip on the master clock
   useEffect(() => {
+    // While playing, the clock is ahead of the frame-rounded playhead
+    const timelineTime = isPlaying && clock ? clock.getTime() : currentTime;
+    // Media can't play backwards, so reverse shuttling scrubs paused elements
+    const forwards = isPlaying && playbackRate > 0;
+    
     activeAudios.forEach(audio => {
       const audioElement = audioRefs.current.get(audio.id);
       if (!audioElement || audioStates.get(audio.id) !== 'ready') return;
       
       try {
-        // Calculate position with trim adjustments
-        const trimStart = audio.trimStart || 0;
-        const relativePosition = Math.max(0, currentTime - audio.start);
-        
-        // Apply trim start - only play audio after the trim start point
-        if (relativePosition < trimStart) {
-          if (!audioElement.paused) {
-            audioElement.pause();
-          }
-          return;
-        }
-        
-        // Apply trim end - stop playing when we reach the trim end point
-        const trimEnd = audio.trimEnd || 0;
-        const effectiveDuration = audio.duration - trimStart - trimEnd;
-        if (relativePosition > trimStart + effectiveDuration) {
-          if (!audioElement.paused) {
-            audioElement.pause();
-          }
-          return;
-        }
-        
-        // Set the correct position in the audio file (accounting for trim)
-        const audioPosition = relativePosition - trimStart;
-        
-        // Compare with last known position to prevent unnecessary seeking
-        // This helps prevent audio stuttering from too frequent seeking
-        const lastPosition = lastPlayPositions.current.get(audio.id) || 0;
-        
-        // Use an adaptive seek threshold - smaller for voiceovers (more precision needed)
-        // and larger for other audio types (less frequent seeking)
-        let seekThreshold = 0.2; // default
-        if (audio.type === 'audio' && audio.name.includes('Voiceover')) {
-          seekThreshold = 0.08; // More precise for voiceovers
-        }
-        
-        // Only seek if position difference exceeds threshold
-        if (Math.abs(audioElement.currentTime - audioPosition) > seekThreshold) {
-          console.log(`Seeking audio ${audio.id} to ${audioPosition}`);
-          audioElement.currentTime = Math.max(0, audioPosition);
-          lastPlayPositions.current.set(audio.id, audioPosition);
-        }
+        // Position in the source file, kept within the part that plays as
+        // export does; outside the clip the element stops
+        const span = getSourceSpan(audio);
+        const audioPosition = Math.min(span.end, span.start + Math.max(0, timelineTime - audio.start));
+        const isInClip = timelineTime >= audio.start && timelineTime < audio.start + audio.duration;
         
         // Apply volume and mute settings
         // Check both global mute and individual audio mute
         const isAudioMuted = muted || audio.muted;
-        const clipVolume = (audio.volume || 1) * (isAudioMuted ? 0 : volume);
-        audioElement.volume = Math.max(0, Math.min(1, clipVolume)); // Ensure volume is between 0 and 1
+        const clipVolume = Math.max(0, Math.min(1, getPropertyValue(audio, 'volume', timelineTime) * (isAudioMuted ? 0 : volume)));
+        const gains = gainNodes.current.get(audio.id);
+        const context = getAudioContext();
+        if (gains && context) {
+          // A short glide between updates avoids zipper noise on volume curves
+          audioElement.volume = 1;
+          gains.volume.gain.setTargetAtTime(clipVolume, context.currentTime, 0.015);
+          scheduleFades(gains.fade.gain, audio, timelineTime, context.currentTime, playbackRate, forwards);
+        } else {
+          audioElement.volume = clipVolume * getFadeGain(audio, timelineTime);
+        }
         
-        // Handle play/pause with improved error handling for voiceovers
-        if (isPlaying) {
-          if (audioElement.paused) {
-            console.log('Playing audio:', audio.id);
-            
-            // First set the currentTime again to ensure we're at the right position
-            // This helps prevent the audio from playing from the wrong position
-            audioElement.currentTime = audioPosition;
-            
-            // Use a promise with proper error handling
-            audioElement.play().catch(err => {
-              console.error('Failed to play audio:', audio.id, err);
-              
-              // If there's an error, try reloading the audio element
-              if (audio.src.includes('#blobId=')) {
-                console.log('Attempting to reload audio from blob storage:', audio.id);
-                createAudioElement(audio).then(newAudio => {
-                  if (newAudio) {
-                    audioRefs.current.set(audio.id, newAudio);
-                    
-                    // Set the position before playing
-                    newAudio.currentTime = audioPosition;
-                    
-                    newAudio.play().catch(err => {
-                      console.error('Still failed to play audio after reload:', err);
-                    });
-                  }
-                });
+        const playing = syncMediaElement(audioElement, audioPosition, forwards && isInClip, playbackRate);
+        playing?.catch(err => {
+          console.error('Failed to play audio:', audio.id, err);
+          
+          // If there's an error, try reloading the audio element
+          if (audio.src.includes('#blobId=')) {
+            console.log('Attempting to reload audio from blob storage:', audio.id);
+            createAudioElement(audio).then(newAudio => {
+              if (newAudio) {
+                audioRefs.current.set(audio.id, newAudio);
               }
             });
           }
-        } else {
-          if (!audioElement.paused) {
-            audioElement.pause();
-            // Store the current position for resuming later
-            lastPlayPositions.current.set(audio.id, audioElement.currentTime);
-          }
+        });
+        
+        if (!isPlaying) {
+          // Store the current position for resuming later
+          lastPlayPositions.current.set(audio.id, audioElement.currentTime);
         }
       } catch (error) {
         console.error('Error controlling audio playback:', audio.id, error);
       }
     });
-  }, [activeAudios, currentTime, isPlaying, volume, muted, audioStates, createAudioElement]);
+  }, [activeAudios, currentTime, isPlaying, playbackRate, clock, volume, muted, audioStates, createAudioElement]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const gains = gainNodes.current;
     return () => {
       console.log('AudioManager unmounting, cleaning up');
       audioRefs.current.forEach((audio) => {
@@ -322,6 +329,8 @@ const AudioManager: React.FC<AudioManagerProps> = ({
         audio.src = '';
       });
       audioRefs.current.clear();
+      gains.forEach(({ volume }) => volume.disconnect());
+      gains.clear();
       setLoadedAudios(new Set());
       setAudioStates(new Map());
       lastPlayPositions.current.clear();
@@ -1,247 +1,348 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
-import { TimelineItem } from '../VideoEditor';
+import { ProjectSettings, TimelineItem } from '../VideoEditor';
 import { toast } from 'sonner';
 import { Volume2, VolumeX } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
+import { resolveMediaUrl } from '@/lib/mediaSource';
+import { drawLayer, FrameSize, getClipReframe, getClipTransform } from '@/lib/compositing';
+import { PlaybackClock, syncMediaElement } from '@/lib/playbackClock';
+import { fitFrameInside, frameForAspectRatio } from '@/lib/projectSettings';
+import { drawTextLayer, getClipText } from '@/lib/textOverlay';
+import { getPropertyValue } from '@/lib/keyframes';
+import { getFadeGain } from '@/lib/audioMix';
+import { getCrossfadeGain, getTransitionPairs, getTransitionState, TransitionState } from '@/lib/transitions';
+import { getSourceSpan } from '@/lib/timelineEdits';
 
-const DEFAULT_VIDEO_URL = 'https://storage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
+// Longest side the preview is composited at
+const PREVIEW_MAX_SIZE = 1280;
 
 interface VideoPlayerProps {
-  activeVideo: TimelineItem | null;
+  layers: TimelineItem[]; // Active video, image and text items, bottom layer first
   currentTime: number;
   isPlaying: boolean;
+  playbackRate: number;
+  clock?: PlaybackClock;
   muted: boolean;
   volume: number;
   fullscreen: boolean;
   containerRef: React.RefObject<HTMLDivElement>;
   duration: number;
+  settings: ProjectSettings;
+  reframeRatio?: string; // Preview a social export of this aspect ratio instead of the project frame
 }
 
+interface LayerMedia {
+  element: HTMLVideoElement | HTMLImageElement;
+  ready: boolean;
+}
+
+/**
+ * Set the canvas up to draw one clip of a transition the way ffmpeg's xfade
+ * blends it in the export
+ * @returns Whether the clip should be drawn at all
+ */
+const applyTransition = (ctx: CanvasRenderingContext2D, { kind, role, progress }: TransitionState): boolean => {
+  const { width, height } = ctx.canvas;
+  const isFrom = role === 'from';
+
+  switch (kind) {
+    case 'crossfade':
+      // The outgoing clip stays solid and the incoming one fades in over it
+      if (!isFrom) ctx.globalAlpha = progress;
+      return true;
+    case 'dip-to-black':
+      if (isFrom !== (progress < 0.5)) return false; // Each clip shows on its own side of the black
+      ctx.filter = `brightness(${isFrom ? 1 - progress * 2 : progress * 2 - 1})`;
+      return true;
+    case 'wipe-left':
+    case 'wipe-right': {
+      // The incoming clip is revealed from one edge
+      const edge = kind === 'wipe-left' ? width * (1 - progress) : width * progress;
+      const showsLeft = (kind === 'wipe-left') === isFrom;
+      ctx.beginPath();
+      ctx.rect(showsLeft ? 0 : edge, 0, showsLeft ? edge : width - edge, height);
+      ctx.clip();
+      return true;
+    }
+    case 'slide-left':
+      ctx.translate(isFrom ? -width * progress : width * (1 - progress), 0);
+      return true;
+    case 'slide-right':
+      ctx.translate(isFrom ? width * progress : -width * (1 - progress), 0);
+      return true;
+    default:
+      return true;
+  }
+};
+
+// Natural size of a loaded video or image
+const getSourceSize = (element: HTMLVideoElement | HTMLImageElement): FrameSize =>
+  element instanceof HTMLVideoElement
+    ? { width: element.videoWidth, height: element.videoHeight }
+    : { width: element.naturalWidth, height: element.naturalHeight };
+
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
-  activeVideo,
+  layers,
   currentTime,
   isPlaying,
+  playbackRate,
+  clock,
   muted,
   volume,
   fullscreen,
   containerRef,
-  duration
+  duration,
+  settings,
+  reframeRatio
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [loaded, setLoaded] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const backgroundRef = useRef(settings.backgroundColor);
+  backgroundRef.current = settings.backgroundColor;
+  const reframeRef = useRef(!!reframeRatio);
+  reframeRef.current = !!reframeRatio;
+  // While playing, the clock is ahead of the frame-rounded playhead
+  const timeRef = useRef(() => currentTime);
+  timeRef.current = () => isPlaying && clock ? clock.getTime() : currentTime;
+  const [stageSize, setStageSize] = useState<FrameSize>({ width: 0, height: 0 });
+  const frameShape = reframeRatio ? frameForAspectRatio(reframeRatio, PREVIEW_MAX_SIZE) : settings;
+  const previewFrame = fitFrameInside(frameShape, PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE);
+  // Largest box with the frame's shape that fits the panel, leaving bars around it
+  const displayScale = Math.min(stageSize.width / frameShape.width, stageSize.height / frameShape.height);
+  const mediaRef = useRef(new Map<string, LayerMedia>());
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
   const [showVolumeControl, setShowVolumeControl] = useState(false);
-  const [isVideoReady, setIsVideoReady] = useState(false);
-  const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
-  const [initialPlayAttempted, setInitialPlayAttempted] = useState(false);
+  const [readyCount, setReadyCount] = useState(0);
 
-  // Handle video loading and source changes
-  useEffect(() => {
-    if (!videoRef.current) return;
-    
-    const video = videoRef.current;
-    
-    if (activeVideo?.src) {
-      // Check if this is a new video that needs to be loaded
-      if (activeVideo.id !== currentVideoId) {
-        console.log('Loading new video:', activeVideo.src);
-        setIsVideoReady(false);
-        setLoaded(false);
-        setInitialPlayAttempted(false);
-        
-        try {
-          video.src = activeVideo.src;
-          video.load();
-          setCurrentVideoId(activeVideo.id);
-        } catch (error) {
-          console.error('Error setting video source:', error);
-          toast.error('Failed to load video', {
-            description: 'Could not set video source. The URL might be invalid.'
-          });
-        }
-      } 
-    } else {
-      // No active video
-      video.src = '';
-      setIsVideoReady(false);
-      setLoaded(false);
-      setInitialPlayAttempted(false);
-      setCurrentVideoId(null);
-    }
-  }, [activeVideo, currentVideoId]);
+  // Topmost video layer, whose volume the overlay control adjusts
+  const activeVideo = [...layers].reverse().find(layer => layer.type === 'video') || null;
+  const isLoading = layers.some(layer => layer.src && !mediaRef.current.get(layer.id)?.ready);
 
-  // Set up event listeners for the video element
+  // Create media elements for layers that became active and release the rest
   useEffect(() => {
-    if (!videoRef.current) return;
-    
-    const video = videoRef.current;
-    
-    const handleLoadedData = () => {
-      console.log('Video loaded successfully');
-      setLoaded(true);
-      setIsVideoReady(true);
-      
-      // Try to play if currently playing
-      if (isPlaying && video.paused && !initialPlayAttempted) {
-        setInitialPlayAttempted(true);
-        video.play().catch(error => {
-          console.error('Failed to autoplay video:', error);
-        });
-      }
-    };
-    
-    const handleCanPlayThrough = () => {
-      if (!isVideoReady) {
-        console.log('Video can play through');
-        setIsVideoReady(true);
+    const media = mediaRef.current;
+    const activeIds = new Set(layers.map(layer => layer.id));
+
+    media.forEach((entry, id) => {
+      if (activeIds.has(id)) return;
+      if (entry.element instanceof HTMLVideoElement) {
+        entry.element.pause();
+        entry.element.removeAttribute('src');
+        entry.element.load();
       }
-    };
-    
-    const handleError = (e: ErrorEvent) => {
-      console.error('Video loading error:', e);
-      setIsVideoReady(false);
-      toast.error('Error loading video', {
-        description: 'Could not load the video. Please try a different file.',
-      });
-    };
-    
-    const handleEnded = () => {
-      if (isPlaying) {
-        video.currentTime = 0;
-        video.play().catch(console.error);
+      media.delete(id);
+    });
+
+    layers.forEach(layer => {
+      if (media.has(layer.id) || !layer.src) return;
+
+      const element = layer.type === 'video' ? document.createElement('video') : new Image();
+      const entry: LayerMedia = { element, ready: false };
+      media.set(layer.id, entry);
+
+      const handleReady = () => {
+        entry.ready = true;
+        setReadyCount(count => count + 1);
+      };
+
+      if (element instanceof HTMLVideoElement) {
+        element.playsInline = true;
+        element.preload = 'auto';
+        element.addEventListener('loadeddata', handleReady, { once: true });
+      } else {
+        element.addEventListener('load', handleReady, { once: true });
       }
-    };
-    
-    // Add event listeners
-    video.addEventListener('loadeddata', handleLoadedData);
-    video.addEventListener('canplaythrough', handleCanPlayThrough);
-    video.addEventListener('error', handleError as EventListener);
-    video.addEventListener('ended', handleEnded);
-    
-    // Clean up
-    return () => {
-      video.removeEventListener('loadeddata', handleLoadedData);
-      video.removeEventListener('canplaythrough', handleCanPlayThrough);
-      video.removeEventListener('error', handleError as EventListener);
-      video.removeEventListener('ended', handleEnded);
-    };
-  }, [isPlaying, initialPlayAttempted, isVideoReady]);
+      element.addEventListener('error', () => {
+        console.error('Error loading layer media:', layer.src);
+        toast.error(`Error loading ${layer.type}`, {
+          description: `Could not load ${layer.name}. Please try a different file.`
+        });
+      }, { once: true });
+
+      // Stored blobs (generated or imported media) may need recreating from IndexedDB
+      resolveMediaUrl(layer.src)
+        .then(url => {
+          element.src = url;
+          if (element instanceof HTMLVideoElement) element.load();
+        })
+        .catch(error => {
+          console.error('Error setting layer source:', error);
+        });
+    });
+  }, [layers]);
 
-  // Handle video playback and synchronization
+  // Keep every video layer on the master clock
   useEffect(() => {
-    if (!videoRef.current || !activeVideo || !isVideoReady) return;
-
-    const video = videoRef.current;
-    
-    // Calculate relative time position in the clip
-    const relativeTime = Math.max(0, currentTime - activeVideo.start);
-    
-    // Apply video trimming if set
-    const trimStart = activeVideo.trimStart || 0;
-    const trimEnd = activeVideo.trimEnd || 0;
-    const maxDuration = activeVideo.duration - trimStart - trimEnd;
-    
-    // Ensure we don't go beyond the trimmed bounds
-    const clampedRelativeTime = Math.min(maxDuration, Math.max(0, relativeTime));
-    const targetTime = trimStart + clampedRelativeTime;
-
-    // Update video position if needed - use a larger threshold for seeking to avoid constant small adjustments
-    if (Math.abs(video.currentTime - targetTime) > 0.5) {
-      console.log(`Seeking to ${targetTime} (current: ${video.currentTime})`);
+    // While playing, the clock is ahead of the frame-rounded playhead
+    const timelineTime = isPlaying && clock ? clock.getTime() : currentTime;
+    // Media can't play backwards, so reverse shuttling scrubs paused elements
+    const forwards = isPlaying && playbackRate > 0;
+
+    const pairs = getTransitionPairs(layers);
+
+    layers.forEach(layer => {
+      const entry = mediaRef.current.get(layer.id);
+      if (!entry?.ready || !(entry.element instanceof HTMLVideoElement)) return;
+      const video = entry.element;
+
+      // Position in the source, kept within the part that plays as export
+      // does. Either side of a transition the clip holds its first or last frame.
+      const span = getSourceSpan(layer);
+      const targetTime = Math.min(span.end, span.start + Math.max(0, timelineTime - layer.start));
+      const isInClip = timelineTime >= layer.start && timelineTime < layer.start + layer.duration;
+
+      const clipVolume = getPropertyValue(layer, 'volume', timelineTime) * (muted || layer.muted ? 0 : volume) *
+        getCrossfadeGain(layer, pairs, timelineTime) * getFadeGain(layer, timelineTime);
+      video.volume = Math.max(0, Math.min(1, clipVolume)); // Ensure volume is between 0 and 1
+
       try {
-        video.currentTime = targetTime;
+        syncMediaElement(video, targetTime, forwards && isInClip, playbackRate)?.catch(err => {
+          console.error('Failed to play video:', err);
+        });
       } catch (error) {
         console.error('Error seeking video:', error);
       }
-    }
+    });
+  }, [layers, currentTime, isPlaying, playbackRate, clock, volume, muted, readyCount]);
 
-    // Update volume
-    const clipVolume = (activeVideo.volume || 1) * (muted ? 0 : volume);
-    video.volume = Math.max(0, Math.min(1, clipVolume)); // Ensure volume is between 0 and 1
+  // Track the space available for the letterboxed frame
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
 
-    // Handle play/pause
-    if (isPlaying) {
-      if (video.paused) {
-        console.log('Playing video:', activeVideo.src);
-        video.play().catch(err => {
-          console.error('Failed to play video:', err);
-          toast.error('Playback error', {
-            description: 'Could not play the video. Please try again.',
-          });
-        });
-      }
-    } else {
-      if (!video.paused) {
-        video.pause();
-      }
-    }
-  }, [activeVideo, currentTime, isPlaying, isVideoReady, volume, muted]);
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  // Composite the layers onto the canvas every frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frameId: number;
+    const render = () => {
+      ctx.fillStyle = backgroundRef.current;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      const layers = layersRef.current;
+      const time = timeRef.current();
+      const pairs = getTransitionPairs(layers);
+
+      layers.forEach(layer => {
+        const entry = mediaRef.current.get(layer.id);
+        if (layer.type !== 'text' && !entry?.ready) return;
+
+        const transition = getTransitionState(layer, pairs, time);
+        ctx.save();
+        if (!transition || applyTransition(ctx, transition)) {
+          if (layer.type === 'text') {
+            drawTextLayer(ctx, getClipText(layer), getClipTransform(layer, time));
+          } else {
+            drawLayer(
+              ctx,
+              entry.element,
+              getSourceSize(entry.element),
+              getClipTransform(layer, time),
+              layer.fit,
+              reframeRef.current ? getClipReframe(layer) : undefined
+            );
+          }
+        }
+        ctx.restore();
+      });
+
+      frameId = requestAnimationFrame(render);
+    };
+
+    frameId = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  // Stop every layer when the player goes away
+  useEffect(() => {
+    const media = mediaRef.current;
+    return () => {
+      media.forEach(entry => {
+        if (entry.element instanceof HTMLVideoElement) {
+          entry.element.pause();
+        }
+      });
+      media.clear();
+    };
+  }, []);
 
   const toggleVideoVolume = () => {
     setShowVolumeControl(prev => !prev);
   };
 
   return (
-    <div className="flex-1 bg-[#1a1a1a] flex items-center justify-center relative p-4">
-      <div className={cn(
-        "relative aspect-video bg-black rounded overflow-hidden shadow-lg",
-        fullscreen ? "w-full h-full" : "w-[90%] mx-auto"
-      )}>
-        <video 
-          ref={videoRef} 
-          className="w-full h-full object-contain"
-          playsInline
-          preload="auto"
+    <div ref={stageRef} className={cn("flex-1 min-h-0 bg-[#1a1a1a] flex items-center justify-center relative", !fullscreen && "p-4")}>
+      <div
+        className={cn("relative overflow-hidden shadow-lg", !fullscreen && "rounded")}
+        style={{
+          width: frameShape.width * displayScale || undefined,
+          height: frameShape.height * displayScale || undefined,
+          backgroundColor: settings.backgroundColor
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={previewFrame.width}
+          height={previewFrame.height}
+          className="w-full h-full"
         />
-        
+
         {activeVideo && (
           <div className="absolute bottom-0 right-0 p-2 flex items-center space-x-2 bg-black/40 rounded-tl-md">
-            <button 
+            <button
               className="w-7 h-7 flex items-center justify-center text-[#F7F8F6] hover:text-[#D7F266] transition-colors"
               onClick={toggleVideoVolume}
               title="Adjust video volume"
             >
               {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
             </button>
-            
+
             {showVolumeControl && (
               <div className="w-24 px-2 py-1 bg-black/80 rounded-full">
                 <Slider
-                  value={[activeVideo.volume || 1]}
+                  value={[getPropertyValue(activeVideo, 'volume', currentTime)]}
                   min={0}
                   max={1}
                   step={0.1}
                   onValueChange={(value) => {
-                    if (videoRef.current) {
-                      videoRef.current.volume = value[0] * (muted ? 0 : volume);
-                      const event = new CustomEvent('video-volume-change', {
-                        detail: {
-                          id: activeVideo.id,
-                          volume: value[0]
-                        }
-                      });
-                      window.dispatchEvent(event);
-                    }
+                    const event = new CustomEvent('video-volume-change', {
+                      detail: {
+                        id: activeVideo.id,
+                        volume: value[0]
+                      }
+                    });
+                    window.dispatchEvent(event);
                   }}
                   className="h-1"
                 />
                 <div className="text-[10px] text-center text-[#F7F8F6] mt-1">
-                  {Math.round((activeVideo.volume || 1) * 100)}%
+                  {Math.round(getPropertyValue(activeVideo, 'volume', currentTime) * 100)}%
                 </div>
               </div>
             )}
           </div>
         )}
-        
+
         {/* Loading indicator */}
-        {activeVideo && !isVideoReady && (
+        {isLoading && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/50">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#D7F266]"></div>
           </div>
         )}
-        
+
         {/* No video message */}
-        {!activeVideo && (
+        {layers.length === 0 && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/30 text-white/70">
             <p>Add and select media to preview</p>
           </div>
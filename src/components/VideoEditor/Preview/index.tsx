@@ -1,37 +1,54 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { toast } from 'sonner';
-import { TimelineItem } from '../VideoEditor';
+import { ProjectSettings, TimelineItem, Track } from '../VideoEditor';
 import VideoPlayer from './VideoPlayer';
 import ActiveMediaDisplay from './ActiveMediaDisplay';
 import AudioManager from './AudioManager';
 import { Maximize, Volume2, VolumeX, Play, Pause, Minimize2 } from 'lucide-react';
+import { getVisualLayers } from '@/lib/compositing';
+import { PlaybackClock } from '@/lib/playbackClock';
+import { formatTimecode } from '@/lib/timecode';
+import { DEFAULT_PROJECT_SETTINGS, SOCIAL_ASPECT_RATIOS } from '@/lib/projectSettings';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface PreviewProps {
   currentTime: number;
   isPlaying: boolean;
   timelineItems: TimelineItem[];
+  tracks: Track[];
   volume: number;
   muted: boolean;
   duration: number;
   onToggleMute: () => void;
   onVolumeChange: (value: number) => void;
   onPlayPause: () => void;
+  playbackRate?: number; // Negative while shuttling backwards
+  clock?: PlaybackClock;
+  settings?: ProjectSettings;
 }
 
 const Preview: React.FC<PreviewProps> = ({ 
   currentTime, 
   isPlaying, 
   timelineItems,
+  tracks,
   volume,
   muted,
   duration,
   onToggleMute,
   onVolumeChange,
-  onPlayPause
+  onPlayPause,
+  playbackRate = 1,
+  clock,
+  settings = DEFAULT_PROJECT_SETTINGS
 }) => {
+  const { fps } = settings;
   const [fullscreen, setFullscreen] = useState(false);
   const [minimized, setMinimized] = useState(false);
+  const [frameRatio, setFrameRatio] = useState('project'); // Or a social aspect ratio to check reframing
   const containerRef = useRef<HTMLDivElement>(null);
+  // Media can't play backwards, so reverse shuttling scrubs with paused elements
+  const isMediaPlaying = isPlaying && playbackRate > 0;
   const [activeMedia, setActiveMedia] = useState({
     videos: [] as TimelineItem[],
     audios: [] as TimelineItem[]
@@ -40,11 +57,8 @@ const Preview: React.FC<PreviewProps> = ({
   // Find active media items based on current time
   useEffect(() => {
     console.log('Finding active media at time:', currentTime);
-    const videos = timelineItems.filter(item => 
-      item.type === 'video' && 
-      currentTime >= item.start && 
-      currentTime < (item.start + item.duration)
-    );
+    // Video and image layers, stacked in track order
+    const videos = getVisualLayers(timelineItems, tracks, currentTime);
     
     const audios = timelineItems.filter(item => 
       item.type === 'audio' && 
@@ -54,11 +68,7 @@ const Preview: React.FC<PreviewProps> = ({
     
     console.log('Active videos:', videos.length, 'Active audios:', audios.length);
     setActiveMedia({ videos, audios });
-  }, [currentTime, timelineItems]);
-  
-  // Get the top video (last one in the array)
-  const activeVideo = activeMedia.videos.length > 0 ? 
-    activeMedia.videos[activeMedia.videos.length - 1] : null;
+  }, [currentTime, timelineItems, tracks]);
   
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newVolume = parseFloat(e.target.value);
@@ -85,24 +95,22 @@ const Preview: React.FC<PreviewProps> = ({
     setMinimized(prev => !prev);
   };
   
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  };
-  
   return (
     <div ref={containerRef} className={`flex-1 bg-[#151514] flex flex-col overflow-hidden animate-fade-in preview-container ${minimized ? 'h-20' : ''}`} style={{ minHeight: minimized ? '80px' : '360px' }} data-preview-container>
       {!minimized ? (
         <VideoPlayer 
-          activeVideo={activeVideo}
+          layers={activeMedia.videos}
           currentTime={currentTime}
-          isPlaying={isPlaying}
+          isPlaying={isMediaPlaying}
+          playbackRate={playbackRate}
+          clock={clock}
           muted={muted}
           volume={volume}
           fullscreen={fullscreen}
           containerRef={containerRef}
           duration={duration}
+          settings={settings}
+          reframeRatio={frameRatio === 'project' ? undefined : frameRatio}
         />
       ) : (
         <div className="h-20 flex items-center justify-center bg-editor-panel/30 text-[#F7F8F6]/80">
@@ -141,10 +149,21 @@ const Preview: React.FC<PreviewProps> = ({
         </div>
         
         <div className="text-[#F7F8F6]/80 text-xs">
-          {formatTime(currentTime)} / {formatTime(duration)}
+          <span className="font-mono">{formatTimecode(currentTime, fps)}</span> / <span className="font-mono">{formatTimecode(duration, fps)}</span>
         </div>
         
         <div className="flex items-center gap-2">
+          <Select value={frameRatio} onValueChange={setFrameRatio}>
+            <SelectTrigger className="h-7 w-[88px] text-xs bg-transparent border-white/20" title="Preview frame">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#1A1A19] border-white/20">
+              <SelectItem value="project" className="text-xs">Project</SelectItem>
+              {SOCIAL_ASPECT_RATIOS.map(({ ratio }) => (
+                <SelectItem key={ratio} value={ratio} className="text-xs">{ratio}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <button
             className="w-7 h-7 flex items-center justify-center text-[#F7F8F6]/80 hover:text-[#F7F8F6] transition-colors"
             onClick={toggleMinimized}
@@ -164,7 +183,9 @@ const Preview: React.FC<PreviewProps> = ({
       <AudioManager 
         activeAudios={activeMedia.audios}
         currentTime={currentTime}
-        isPlaying={isPlaying}
+        isPlaying={isMediaPlaying}
+        playbackRate={playbackRate}
+        clock={clock}
         volume={volume}
         muted={muted}
       />
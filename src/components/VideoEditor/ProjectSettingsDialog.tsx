@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProjectSettings } from './VideoEditor';
+import {
+  ASPECT_RATIO_PRESETS,
+  FPS_OPTIONS,
+  getAspectRatioName,
+  normalizeProjectSettings,
+  SAMPLE_RATE_OPTIONS
+} from '@/lib/projectSettings';
+
+interface ProjectSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ProjectSettings;
+  onSettingsChange: (settings: ProjectSettings) => void;
+}
+
+const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange
+}) => {
+  const [draft, setDraft] = useState(settings);
+
+  // Start from the current settings every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const handlePresetChange = (ratio: string) => {
+    const preset = ASPECT_RATIO_PRESETS.find(entry => entry.ratio === ratio);
+    if (!preset) {
+      setDraft({ ...draft, aspectRatio: 'custom' });
+      return;
+    }
+    setDraft({ ...draft, aspectRatio: preset.ratio, width: preset.width, height: preset.height });
+  };
+
+  const handleSizeChange = (dimension: 'width' | 'height', value: string) => {
+    const next = { ...draft, [dimension]: parseInt(value, 10) || 0 };
+    setDraft({ ...next, aspectRatio: getAspectRatioName(next.width, next.height) });
+  };
+
+  const handleApply = () => {
+    onSettingsChange(normalizeProjectSettings(draft));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-[#151514] border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle>Project settings</DialogTitle>
+          <DialogDescription className="text-white/60">
+            The frame the preview shows and exports render at. Clips with a different shape are fitted to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="aspect-ratio">Aspect ratio</Label>
+            <Select value={draft.aspectRatio} onValueChange={handlePresetChange}>
+              <SelectTrigger id="aspect-ratio" className="bg-[#1A1A19] border-white/20">
+                <SelectValue placeholder="Select aspect ratio" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A1A19] border-white/20">
+                {ASPECT_RATIO_PRESETS.map(preset => (
+                  <SelectItem key={preset.ratio} value={preset.ratio}>{preset.label}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="frame-width">Width</Label>
+              <Input
+                id="frame-width"
+                type="number"
+                min={16}
+                step={2}
+                value={draft.width}
+                onChange={(e) => handleSizeChange('width', e.target.value)}
+                className="bg-[#1A1A19] border-white/20"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="frame-height">Height</Label>
+              <Input
+                id="frame-height"
+                type="number"
+                min={16}
+                step={2}
+                value={draft.height}
+                onChange={(e) => handleSizeChange('height', e.target.value)}
+                className="bg-[#1A1A19] border-white/20"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="frame-rate">Frame rate</Label>
+              <Select value={String(draft.fps)} onValueChange={(value) => setDraft({ ...draft, fps: Number(value) })}>
+                <SelectTrigger id="frame-rate" className="bg-[#1A1A19] border-white/20">
+                  <SelectValue placeholder="Select frame rate" />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1A1A19] border-white/20">
+                  {FPS_OPTIONS.map(fps => (
+                    <SelectItem key={fps} value={String(fps)}>{fps} fps</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sample-rate">Audio sample rate</Label>
+              <Select value={String(draft.sampleRate)} onValueChange={(value) => setDraft({ ...draft, sampleRate: Number(value) })}>
+                <SelectTrigger id="sample-rate" className="bg-[#1A1A19] border-white/20">
+                  <SelectValue placeholder="Select sample rate" />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1A1A19] border-white/20">
+                  {SAMPLE_RATE_OPTIONS.map(rate => (
+                    <SelectItem key={rate} value={String(rate)}>{(rate / 1000).toFixed(1)} kHz</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="background-color">Background colour</Label>
+            <div className="flex items-center gap-2">
+              <input
+                id="background-color"
+                type="color"
+                value={draft.backgroundColor}
+                onChange={(e) => setDraft({ ...draft, backgroundColor: e.target.value })}
+                className="h-9 w-12 rounded border border-white/20 bg-transparent cursor-pointer"
+              />
+              <span className="text-xs font-mono text-white/60">{draft.backgroundColor}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="border-white/20" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleApply} className="bg-[#D7F266] text-[#151514] hover:bg-[#D7F266]/80">
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectSettingsDialog;
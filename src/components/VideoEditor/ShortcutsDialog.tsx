@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  findShortcutUsing,
+  formatKeyCombo,
+  getKeyCombo,
+  Keymap,
+  ResolvedKeymap,
+  ShortcutDefinition,
+  ShortcutId,
+  SHORTCUTS
+} from '@/lib/shortcuts';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  keymap: ResolvedKeymap;
+  overrides: Keymap;
+  onKeymapChange: (overrides: Keymap) => void;
+}
+
+const GROUPS: ShortcutDefinition['group'][] = ['Playback', 'Editing', 'Tools', 'View'];
+
+const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({
+  open,
+  onOpenChange,
+  keymap,
+  overrides,
+  onKeymapChange
+}) => {
+  const [capturingId, setCapturingId] = useState<ShortcutId | null>(null);
+
+  // While remapping, the next key combination pressed becomes the shortcut
+  useEffect(() => {
+    if (!capturingId) return;
+
+    const handleCapture = (e: KeyboardEvent) => {
+      // Capturing on window runs before the dialog and editor see the key
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.key === 'Escape') {
+        setCapturingId(null);
+        return;
+      }
+
+      const combo = getKeyCombo(e);
+      if (!combo) return;
+
+      const next: Keymap = { ...overrides, [capturingId]: [combo] };
+      const previousOwner = findShortcutUsing(keymap, combo);
+      if (previousOwner && previousOwner !== capturingId) {
+        next[previousOwner] = keymap[previousOwner].filter(key => key !== combo);
+        toast.info(`${formatKeyCombo(combo)} was moved from "${SHORTCUTS.find(s => s.id === previousOwner)?.label}"`);
+      }
+
+      onKeymapChange(next);
+      setCapturingId(null);
+    };
+
+    window.addEventListener('keydown', handleCapture, true);
+    return () => window.removeEventListener('keydown', handleCapture, true);
+  }, [capturingId, keymap, overrides, onKeymapChange]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setCapturingId(null);
+    onOpenChange(isOpen);
+  };
+
+  const resetShortcut = (id: ShortcutId) => {
+    const next = { ...overrides };
+    delete next[id];
+    onKeymapChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-[#151514] border-white/10 text-[#F7F8F6] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Click a shortcut to change it, then press the new key combination. Press Esc to cancel.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-2 space-y-4">
+          {GROUPS.map(group => (
+            <div key={group}>
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50 mb-1">{group}</h4>
+              {SHORTCUTS.filter(shortcut => shortcut.group === group).map(shortcut => (
+                <div key={shortcut.id} className="flex items-center justify-between py-1 text-sm">
+                  <span className="text-white/80">{shortcut.label}</span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      className={cn(
+                        "flex gap-1 rounded px-1 py-0.5 hover:bg-white/10",
+                        capturingId === shortcut.id && "ring-1 ring-[#D7F266]"
+                      )}
+                      onClick={() => setCapturingId(shortcut.id)}
+                      title="Change shortcut"
+                    >
+                      {capturingId === shortcut.id ? (
+                        <span className="text-xs text-[#D7F266] px-1">Press keys...</span>
+                      ) : keymap[shortcut.id].length > 0 ? (
+                        keymap[shortcut.id].map(combo => (
+                          <kbd key={combo} className="text-xs bg-white/10 border border-white/20 rounded px-1.5 py-0.5 font-mono">
+                            {formatKeyCombo(combo)}
+                          </kbd>
+                        ))
+                      ) : (
+                        <span className="text-xs text-white/40 px-1">Unassigned</span>
+                      )}
+                    </button>
+                    <button
+                      className={cn(
+                        "p-1 text-white/50 hover:text-white",
+                        !overrides[shortcut.id] && "invisible"
+                      )}
+                      onClick={() => resetShortcut(shortcut.id)}
+                      title="Restore default"
+                    >
+                      <RotateCcw size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-white/20"
+            disabled={Object.keys(overrides).length === 0}
+            onClick={() => onKeymapChange({})}
+          >
+            Restore all defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShortcutsDialog;
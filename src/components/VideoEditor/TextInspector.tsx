@@ -0,0 +1,121 @@
+import React from 'react';
+import { AlignCenter, AlignLeft, AlignRight, Bold, Italic } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipText, TimelineItem } from './VideoEditor';
+import { getClipText, TEXT_FONTS } from '@/lib/textOverlay';
+import { cn } from '@/lib/utils';
+
+interface TextInspectorProps {
+  item: TimelineItem;
+  onUpdateItem: (item: TimelineItem) => void;
+}
+
+const ALIGN_OPTIONS: { value: ClipText['align']; label: string; icon: React.ReactNode }[] = [
+  { value: 'left', label: 'Align left', icon: <AlignLeft size={14} /> },
+  { value: 'center', label: 'Centre', icon: <AlignCenter size={14} /> },
+  { value: 'right', label: 'Align right', icon: <AlignRight size={14} /> }
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Words and styling of a text clip
+const TextInspector: React.FC<TextInspectorProps> = ({ item, onUpdateItem }) => {
+  const text = getClipText(item);
+
+  const updateText = (changes: Partial<ClipText>) => {
+    const next = { ...text, ...changes };
+    // The clip is named after its first line, so it reads on the timeline
+    onUpdateItem({ ...item, text: next, name: next.content.split('\n')[0] || 'Text' });
+  };
+
+  const toggleClass = (active: boolean) => cn(
+    "h-7 w-7 flex items-center justify-center rounded border border-white/20 hover:bg-white/10",
+    active && "bg-[#D7F266]/20 border-[#D7F266] text-[#D7F266]"
+  );
+
+  const renderSlider = (label: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void) => (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-white/70">
+        <span>{label}</span>
+        <span>{percent(value)}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+    </div>
+  );
+
+  const renderColor = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <label htmlFor={id} className="flex items-center justify-between text-xs text-white/70">
+      <span>{label}</span>
+      <input
+        id={id}
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-6 w-10 rounded border border-white/20 bg-transparent cursor-pointer"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Text</h4>
+      <Textarea
+        value={text.content}
+        onChange={(e) => updateText({ content: e.target.value })}
+        rows={3}
+        className="bg-[#1A1A19] border-white/20 text-sm resize-none"
+        placeholder="Type your text"
+      />
+
+      <Select value={text.fontFamily} onValueChange={(fontFamily) => updateText({ fontFamily })}>
+        <SelectTrigger className="h-8 bg-[#1A1A19] border-white/20 text-xs">
+          <SelectValue placeholder="Font" />
+        </SelectTrigger>
+        <SelectContent className="bg-[#1A1A19] border-white/20">
+          {TEXT_FONTS.map(font => (
+            <SelectItem key={font} value={font} style={{ fontFamily: `"${font}", sans-serif` }}>{font}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <button className={toggleClass(text.bold)} onClick={() => updateText({ bold: !text.bold })} title="Bold">
+          <Bold size={14} />
+        </button>
+        <button className={toggleClass(text.italic)} onClick={() => updateText({ italic: !text.italic })} title="Italic">
+          <Italic size={14} />
+        </button>
+        <div className="h-4 w-px bg-white/20 mx-1"></div>
+        {ALIGN_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            className={toggleClass(text.align === option.value)}
+            onClick={() => updateText({ align: option.value })}
+            title={option.label}
+          >
+            {option.icon}
+          </button>
+        ))}
+      </div>
+
+      {renderSlider('Size', text.fontSize, 0.02, 0.3, 0.005, fontSize => updateText({ fontSize }))}
+      {renderColor('text-color', 'Colour', text.color, color => updateText({ color }))}
+
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50 pt-1">Outline</h4>
+      {renderSlider('Width', text.strokeWidth, 0, 0.3, 0.01, strokeWidth => updateText({ strokeWidth }))}
+      {renderColor('text-stroke-color', 'Colour', text.strokeColor, strokeColor => updateText({ strokeColor }))}
+
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50 pt-1">Shadow</h4>
+      {renderSlider('Blur', text.shadowBlur, 0, 0.5, 0.01, shadowBlur => updateText({ shadowBlur }))}
+      {renderColor('text-shadow-color', 'Colour', text.shadowColor, shadowColor => updateText({ shadowColor }))}
+
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50 pt-1">Background box</h4>
+      {renderSlider('Opacity', text.boxOpacity, 0, 1, 0.01, boxOpacity => updateText({ boxOpacity }))}
+      {renderColor('text-box-color', 'Colour', text.boxColor, boxColor => updateText({ boxColor }))}
+    </div>
+  );
+};
+
+export default TextInspector;
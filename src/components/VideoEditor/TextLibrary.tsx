@@ -0,0 +1,51 @@
+import React from 'react';
+import { Plus } from 'lucide-react';
+import { ClipText } from './VideoEditor';
+import { DEFAULT_TEXT, TEXT_PRESETS, TextPreset } from '@/lib/textOverlay';
+
+interface TextLibraryProps {
+  onAddText: (preset: TextPreset) => void;
+}
+
+// A small sample of each preset's styling for its card
+const getSampleStyle = (text: ClipText): React.CSSProperties => ({
+  fontFamily: `"${text.fontFamily}", sans-serif`,
+  fontWeight: text.bold ? 700 : 400,
+  fontStyle: text.italic ? 'italic' : 'normal',
+  color: text.color,
+  WebkitTextStroke: text.strokeWidth > 0 ? `1px ${text.strokeColor}` : undefined,
+  backgroundColor: text.boxOpacity > 0 ? `${text.boxColor}${Math.round(text.boxOpacity * 255).toString(16).padStart(2, '0')}` : undefined
+});
+
+// Text presets; picking one adds it at the playhead
+const TextLibrary: React.FC<TextLibraryProps> = ({ onAddText }) => {
+  return (
+    <div className="p-3 space-y-2">
+      <h3 className="text-sm font-semibold text-[#F7F8F6]">Text</h3>
+      <p className="text-xs text-white/60">Added at the playhead. Edit the words and style in the inspector.</p>
+      {TEXT_PRESETS.map(preset => {
+        const text = { ...DEFAULT_TEXT, ...preset.text };
+        return (
+          <button
+            key={preset.name}
+            className="w-full text-left rounded bg-[#1A1A19] border border-white/10 hover:border-[#D7F266]/60 p-2 flex items-center gap-3 group"
+            onClick={() => onAddText(preset)}
+          >
+            <div className="w-20 h-12 shrink-0 rounded bg-black/60 flex items-center justify-center overflow-hidden">
+              <span className="text-sm px-1 truncate" style={getSampleStyle(text)}>
+                {text.content.split('\n')[0]}
+              </span>
+            </div>
+            <div className="min-w-0 flex-1">
+              <div className="text-sm text-[#F7F8F6]">{preset.name}</div>
+              <div className="text-xs text-white/50 truncate">{preset.description}</div>
+            </div>
+            <Plus size={14} className="text-white/40 group-hover:text-[#D7F266]" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TextLibrary;
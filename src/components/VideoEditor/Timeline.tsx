@@ -1,11 +1,26 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Play, Pause, Volume2, VolumeX, Scissors, Plus, Trash2, ZoomIn, ZoomOut, Clock, Undo, Redo, ChevronLeft, ChevronRight, ArrowLeft, ArrowRight } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, Volume2, VolumeX, Scissors, Plus, Trash2, ZoomIn, ZoomOut, Clock, Undo, Redo, ChevronLeft, ChevronRight, ArrowLeft, ArrowRight, Lock, Unlock, Eye, EyeOff, Headphones, GripVertical, ChevronsLeft, Link2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { TimelineItem } from './VideoEditor';
+import { KeyframeProperty, TimelineItem, TimelineMarker, Track, TrackKind } from './VideoEditor';
+import { canPlaceOnTrack, createTrack, getTrackOffsets, MAX_TRACK_HEIGHT, MIN_TRACK_HEIGHT } from '@/lib/tracks';
+import { applyLinkedTrim, getLinkedIds, moveItems, RippleMode, setItemDuration, setItemTrim } from '@/lib/timelineEdits';
 import { Slider } from '@/components/ui/slider';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuTrigger } from '@/components/ui/context-menu';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { resolveKeymap, ResolvedKeymap } from '@/lib/shortcuts';
+import { DEFAULT_FPS, formatTimecode } from '@/lib/timecode';
+import { isVisualItem } from '@/lib/compositing';
+import { getAdjacentPairs, TRANSITION_DRAG_TYPE } from '@/lib/transitions';
+import TransitionMarker from './TransitionMarker';
+import KeyframeCurve from './KeyframeCurve';
+import FadeHandles from './FadeHandles';
+import MarkerFlag from './MarkerFlag';
+import { createMarker, getClipMarkerTime, getMarkerTimes, getVisibleClipMarkers, sortMarkers } from '@/lib/markers';
+import { canAnimate, getPropertyValue, KEYFRAME_PROPERTIES, setPropertyValue } from '@/lib/keyframes';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface TimelineProps {
   currentTime: number;
@@ -14,14 +29,35 @@ interface TimelineProps {
   onPlayPause: () => void;
   onSeek: (time: number) => void;
   items: TimelineItem[];
+  tracks: Track[];
+  onTracksChange: (tracks: Track[]) => void;
   onRemoveItem: (id: string) => void;
+  onRemoveItems?: (ids: string[]) => void;
   onUpdateItem?: (item: TimelineItem) => void;
+  onUpdateItems?: (items: TimelineItem[]) => void;
+  onCopyItems?: (ids: string[]) => void;
+  onPasteItems?: (time: number) => void;
+  onSplitItems?: (time: number, itemIds?: string[]) => void;
+  rippleMode?: RippleMode;
+  onRippleModeChange?: (mode: RippleMode) => void;
+  onRippleTrimItem?: (item: TimelineItem) => void;
+  onCloseGaps?: (trackId: string) => void;
   scale?: number; // Pixels per second
-  onSelectItem?: (item: TimelineItem | null) => void;
-  selectedItem?: TimelineItem | null;
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  inPoint?: number | null;
+  outPoint?: number | null;
+  onInPointChange?: (time: number | null) => void;
+  onOutPointChange?: (time: number | null) => void;
+  markers?: TimelineMarker[];
+  onMarkersChange?: (markers: TimelineMarker[], coalesceKey?: string) => void;
+  keymap?: ResolvedKeymap;
+  shortcutsEnabled?: boolean;
+  fps?: number;
 }
 
 const INITIAL_SCALE = 80; // pixels per second
+const DEFAULT_KEYMAP = resolveKeymap();
 
 const Timeline = ({
   currentTime,
@@ -30,34 +66,90 @@ const Timeline = ({
   onPlayPause,
   onSeek,
   items,
+  tracks,
+  onTracksChange,
   onRemoveItem,
+  onRemoveItems,
   onUpdateItem,
+  onUpdateItems,
+  onCopyItems,
+  onPasteItems,
+  onSplitItems,
+  rippleMode = 'off',
+  onRippleModeChange,
+  onRippleTrimItem,
+  onCloseGaps,
   scale = INITIAL_SCALE,
-  onSelectItem,
-  selectedItem
+  selectedIds = [],
+  onSelectionChange,
+  inPoint = null,
+  outPoint = null,
+  onInPointChange,
+  onOutPointChange,
+  markers = [],
+  onMarkersChange,
+  keymap = DEFAULT_KEYMAP,
+  shortcutsEnabled = true,
+  fps = DEFAULT_FPS
 }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
   const playheadRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null); // Reference for the scrollable container
-  const [tracks] = useState(['Video', 'Audio 1', 'Audio 2', 'Voiceover']);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragStartX, setDragStartX] = useState(0);
-  const [dragStartY, setDragStartY] = useState(0);
-  const [dragStartPos, setDragStartPos] = useState({ start: 0, trackId: '' });
   const [draggedItem, setDraggedItem] = useState<TimelineItem | null>(null);
   const [showVolumeControl, setShowVolumeControl] = useState<string | null>(null);
   const [showTrimControl, setShowTrimControl] = useState<string | null>(null);
   const [isResizing, setIsResizing] = useState(false);
-  const [resizeDirection, setResizeDirection] = useState<'start' | 'end' | null>(null);
-  const [resizeItem, setResizeItem] = useState<TimelineItem | null>(null);
-  const [resizeStartPos, setResizeStartPos] = useState(0);
+  const [editingTrackId, setEditingTrackId] = useState<string | null>(null);
+  const [trackNameDraft, setTrackNameDraft] = useState('');
+  const [draggedTrackId, setDraggedTrackId] = useState<string | null>(null);
+  const [activeTool, setActiveTool] = useState<'select' | 'razor'>('select');
+  const [razorHoverX, setRazorHoverX] = useState<number | null>(null);
   const [snapEnabled, setSnapEnabled] = useState(true);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [showPositionTooltip, setShowPositionTooltip] = useState(false);
+  const [marquee, setMarquee] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  const [rulerMenuTime, setRulerMenuTime] = useState(0); // Where the ruler's context menu was opened
+  const [curveProperty, setCurveProperty] = useState<KeyframeProperty | null>(null); // Drawn over the clips it applies to
+  
+  // Document listeners are attached on mousedown, so drag and resize read
+  // their state from refs rather than from the render that started them.
+  // A drag moves `group` (the selection or the clicked clip's link group);
+  // `collapseTo` narrows the selection again if the mouse never moved.
+  const dragRef = useRef<{
+    item: TimelineItem;
+    startX: number;
+    startY: number;
+    group: TimelineItem[];
+    moved: boolean;
+    collapseTo: string[] | null;
+  } | null>(null);
+  const resizeRef = useRef<{
+    item: TimelineItem;
+    direction: 'start' | 'end';
+    startX: number;
+    lastItem: TimelineItem;
+    partners: TimelineItem[];
+  } | null>(null);
+  const marqueeRef = useRef<{ startX: number; startY: number; additive: boolean; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const trackResizeRef = useRef<{ trackId: string; startY: number; startHeight: number } | null>(null);
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
   
   // Calculate timeline width based on duration
   const timelineWidth = Math.max(duration * scale, 1000);
   
+  // Vertical layout of the tracks
+  const trackOffsets = getTrackOffsets(tracks);
+  const tracksHeight = tracks.reduce((total, track) => total + track.height, 0);
+  const tracksById = new Map<string, Track>(tracks.map(track => [track.id, track]));
+  const isItemLocked = (item: TimelineItem) => !!tracksById.get(item.trackId)?.locked;
+  const cutPairs = getAdjacentPairs(items.filter(isVisualItem));
+  
+  // The most recently selected clip drives single-clip shortcuts
+  const selectedItem = items.find(item => item.id === selectedIds[selectedIds.length - 1]) || null;
+  
   // Generate time markers
   const timeMarkers = [];
   const markerInterval = scale <= 40 ? 5 : scale <= 80 ? 2 : 1; // Seconds
@@ -103,6 +195,12 @@ const Timeline = ({
   const handleTimelineClick = (e: React.MouseEvent) => {
     if (!timelineRef.current) return;
     
+    // The click that ends a marquee selection shouldn't move the playhead
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    
     const rect = timelineRef.current.getBoundingClientRect();
     const offsetX = e.clientX - rect.left;
     const clickedTime = (offsetX / scale);
@@ -110,51 +208,96 @@ const Timeline = ({
     onSeek(Math.max(0, Math.min(clickedTime, duration)));
   };
   
-  // Handle item click for selection
+  // Handle item click for cutting with the razor; selection happens on mousedown
   const handleItemClick = (e: React.MouseEvent, item: TimelineItem) => {
     e.stopPropagation();
-    if (onSelectItem) {
-      onSelectItem(item);
+    
+    if (activeTool === 'razor' && timelineRef.current) {
+      const rect = timelineRef.current.getBoundingClientRect();
+      onSplitItems?.((e.clientX - rect.left) / scale, [item.id]);
     }
   };
   
-  // Handle item drag start
+  // Handle item drag start. Shift/Ctrl-click toggles the clip in the
+  // selection; a plain click selects it, or drags the whole selection if it
+  // was already selected.
   const handleItemDragStart = (e: React.MouseEvent, item: TimelineItem) => {
     e.preventDefault();
-    // Don't start drag if we're resizing
-    if (isResizing) return;
+    // Don't start drag if we're resizing or cutting
+    if (isResizing || activeTool === 'razor') return;
     
-    setIsDragging(true);
-    setDraggedItem(item);
-    setDragStartX(e.clientX);
-    setDragStartY(e.clientY);
-    setDragStartPos({ start: item.start, trackId: item.trackId });
+    const groupIds = getLinkedIds(items, [item.id]);
+    const isSelected = selectedIds.includes(item.id);
+    const otherIds = selectedIds.filter(id => !groupIds.includes(id));
+    
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      onSelectionChange?.(isSelected ? otherIds : [...otherIds, ...groupIds]);
+      return;
+    }
     
-    if (onSelectItem) {
-      onSelectItem(item);
+    if (!isSelected) {
+      onSelectionChange?.(groupIds);
     }
     
+    if (isItemLocked(item)) return;
+    
+    const movingIds = isSelected ? selectedIds : groupIds;
+    dragRef.current = {
+      item,
+      startX: e.clientX,
+      startY: e.clientY,
+      group: items.filter(i => movingIds.includes(i.id) && !isItemLocked(i)),
+      moved: false,
+      collapseTo: isSelected && otherIds.length > 0 ? groupIds : null
+    };
+    setIsDragging(true);
+    setDraggedItem(item);
+    
     document.addEventListener('mousemove', handleItemDragMove);
     document.addEventListener('mouseup', handleItemDragEnd);
   };
   
+  // Find the track under a vertical position within the timeline
+  const getTrackAtY = (y: number): Track | undefined => {
+    return tracks.find(track => {
+      const top = trackOffsets.get(track.id) ?? 0;
+      return y >= top && y < top + track.height;
+    });
+  };
+  
   // Handle item drag move
   const handleItemDragMove = (e: MouseEvent) => {
-    if (!isDragging || !draggedItem || !timelineRef.current) return;
+    const drag = dragRef.current;
+    if (!drag || !timelineRef.current) return;
+    const draggedItem = drag.item;
     
-    const dx = e.clientX - dragStartX;
-    const dy = e.clientY - dragStartY;
+    const dx = e.clientX - drag.startX;
+    drag.moved = drag.moved || Math.abs(dx) > 2 || Math.abs(e.clientY - drag.startY) > 2;
     
     // Calculate new start time based on mouse movement
     const deltaTime = dx / scale;
-    let newStart = Math.max(0, dragStartPos.start + deltaTime);
     
-    // Calculate new track based on vertical movement
-    const trackHeight = 40; // Height of each track in pixels
-    const trackOffset = Math.round(dy / trackHeight);
-    const tracksCount = tracks.length;
-    const trackIndex = Math.max(0, Math.min(tracksCount - 1, parseInt(dragStartPos.trackId.replace('track', '')) - 1 + trackOffset));
-    const newTrackId = `track${trackIndex + 1}`;
+    // Several clips move together in time, staying on their tracks
+    if (drag.group.length > 1) {
+      const groupIds = drag.group.map(item => item.id);
+      const delta = Math.max(-Math.min(...drag.group.map(item => item.start)), deltaTime);
+      const originals = items.map(item => drag.group.find(moving => moving.id === item.id) ?? item);
+      const moved = moveItems(originals, groupIds, delta);
+      
+      if (moved && onUpdateItems) {
+        onUpdateItems(moved.filter(item => groupIds.includes(item.id)));
+      }
+      return;
+    }
+    
+    let newStart = Math.max(0, draggedItem.start + deltaTime);
+    
+    // Move to the track under the pointer if it can take this item
+    const rect = timelineRef.current.getBoundingClientRect();
+    const hoveredTrack = getTrackAtY(e.clientY - rect.top);
+    const newTrackId = hoveredTrack && !hoveredTrack.locked && canPlaceOnTrack(draggedItem, hoveredTrack)
+      ? hoveredTrack.id
+      : draggedItem.trackId;
     
     // Get all items in the target track except the one being dragged
     const itemsInTargetTrack = items
@@ -228,6 +371,11 @@ const Timeline = ({
           snapPoints.push((item.start + item.duration) * scale);
         });
         
+        // Add markers, except those moving with the clip
+        getMarkerTimes(markers, items.filter(item => item.id !== draggedItem.id)).forEach(time => {
+          snapPoints.push(time * scale);
+        });
+        
         // Find closest snap point
         const newStartPos = newStart * scale;
         const closestPoint = snapPoints.find(point => Math.abs(point - newStartPos) < snapThreshold);
@@ -262,6 +410,12 @@ const Timeline = ({
   
   // Handle item drag end
   const handleItemDragEnd = () => {
+    const drag = dragRef.current;
+    if (drag && !drag.moved && drag.collapseTo) {
+      onSelectionChange?.(drag.collapseTo);
+    }
+    
+    dragRef.current = null;
     setIsDragging(false);
     setDraggedItem(null);
     
@@ -274,10 +428,13 @@ const Timeline = ({
     e.stopPropagation();
     e.preventDefault();
     
+    if (isItemLocked(item)) return;
+    
+    const partners = items.filter(other =>
+      other.id !== item.id && item.linkGroupId && other.linkGroupId === item.linkGroupId && !isItemLocked(other)
+    );
+    resizeRef.current = { item, direction, startX: e.clientX, lastItem: item, partners };
     setIsResizing(true);
-    setResizeDirection(direction);
-    setResizeItem(item);
-    setResizeStartPos(e.clientX);
     
     // Add event listeners for mouse move and mouse up
     document.addEventListener('mousemove', handleResizeMove);
@@ -286,13 +443,34 @@ const Timeline = ({
   
   // Handle resize move
   const handleResizeMove = (e: MouseEvent) => {
-    if (!isResizing || !resizeItem || !resizeDirection || !timelineRef.current) return;
+    const resize = resizeRef.current;
+    if (!resize || !timelineRef.current) return;
+    const { item: resizeItem, direction: resizeDirection } = resize;
     
-    const rect = timelineRef.current.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const timeDelta = (e.clientX - resizeStartPos) / scale;
+    const timeDelta = (e.clientX - resize.startX) / scale;
+    const trimStart = resizeItem.trimStart || 0;
+    
+    // Ripple trims keep the clip's start where it is and push or pull the
+    // clips after it instead of stopping at them
+    if (rippleMode !== 'off' && onRippleTrimItem) {
+      const newDuration = Math.min(resizeItem.duration + trimStart, Math.max(0.5, resizeItem.duration - timeDelta));
+      const updatedItem = resizeDirection === 'start'
+        ? { ...resizeItem, duration: newDuration, trimStart: trimStart + resizeItem.duration - newDuration }
+        : setItemDuration(resizeItem, resizeItem.duration + timeDelta);
+      
+      if (updatedItem.duration !== resize.lastItem.duration) {
+        resize.lastItem = updatedItem;
+        onRippleTrimItem(updatedItem);
+      }
+      
+      setMousePosition({ x: e.clientX, y: e.clientY });
+      setShowPositionTooltip(true);
+      return;
+    }
     
-    // Calculate new position and duration
+    // Calculate new position and duration. Like a ripple trim, dragging the
+    // start trims the head of the source, so it can only extend as far as
+    // the source has head left.
     let newStart = resizeItem.start;
     let newDuration = resizeItem.duration;
     
@@ -304,8 +482,9 @@ const Timeline = ({
     
     if (resizeDirection === 'start') {
       // Resizing from the start (left side)
-      const proposedStart = Math.max(0, resizeItem.start + timeDelta);
-      const proposedDuration = Math.max(0.5, resizeItem.duration - timeDelta);
+      const delta = Math.min(resizeItem.duration - 0.5, Math.max(-Math.min(trimStart, resizeItem.start), timeDelta));
+      const proposedStart = resizeItem.start + delta;
+      const proposedDuration = resizeItem.duration - delta;
       
       // Check if new position would overlap with other items
       const wouldOverlap = overlappingItems.some(item => 
@@ -318,8 +497,8 @@ const Timeline = ({
         newDuration = proposedDuration;
       }
     } else {
-      // Resizing from the end (right side)
-      const proposedDuration = Math.max(0.5, resizeItem.duration + timeDelta);
+      // Resizing from the end (right side), as far as the source has tail left
+      const proposedDuration = setItemDuration(resizeItem, resizeItem.duration + timeDelta).duration;
       
       // Check if new duration would overlap with other items
       const wouldOverlap = overlappingItems.some(item => 
@@ -352,19 +531,25 @@ const Timeline = ({
         snapPoints.push((item.start + item.duration) * scale);
       });
       
+      // Add markers, except the clip's own
+      getMarkerTimes(markers, items.filter(item => item.id !== resizeItem.id)).forEach(time => {
+        snapPoints.push(time * scale);
+      });
+      
       // Find closest snap point
       if (resizeDirection === 'start') {
         const startPos = newStart * scale;
         const closestPoint = snapPoints.find(point => Math.abs(point - startPos) < snapThreshold);
         if (closestPoint !== undefined) {
           const snappedTime = closestPoint / scale;
-          // Verify snapped position doesn't cause overlap
+          // Verify snapped position doesn't cause overlap or run out of head
           const wouldOverlap = overlappingItems.some(item => 
             snappedTime < (item.start + item.duration) && 
             (snappedTime + newDuration) > item.start
           );
+          const withinHead = snappedTime >= resizeItem.start - trimStart;
           
-          if (!wouldOverlap) {
+          if (!wouldOverlap && withinHead) {
             newDuration = resizeItem.start + resizeItem.duration - snappedTime;
             newStart = snappedTime;
           }
@@ -387,33 +572,116 @@ const Timeline = ({
       }
     }
     
-    // Update the item with new values if they've changed
-    if (onUpdateItem && (newStart !== resizeItem.start || newDuration !== resizeItem.duration)) {
-      onUpdateItem({
-        ...resizeItem,
-        start: newStart,
-        duration: newDuration
-      });
+    // Update the item with new values if they've changed. A snapped end is
+    // still held to the source's tail.
+    const updatedItem = resizeDirection === 'start'
+      ? { ...resizeItem, start: newStart, duration: newDuration, trimStart: trimStart + newStart - resizeItem.start }
+      : setItemDuration(resizeItem, newDuration);
+    const { lastItem } = resize;
+    if (onUpdateItem && (updatedItem.start !== lastItem.start || updatedItem.duration !== lastItem.duration)) {
+      resize.lastItem = updatedItem;
+      
+      // Linked clips take the same trim
+      if (resize.partners.length > 0 && onUpdateItems) {
+        onUpdateItems([updatedItem, ...applyLinkedTrim(resize.partners, resizeItem, updatedItem)]);
+      } else {
+        onUpdateItem(updatedItem);
+      }
     }
+  };
+  
+  // Start a rubber-band selection from an empty part of the timeline
+  const handleMarqueeStart = (e: React.MouseEvent) => {
+    if (e.button !== 0 || activeTool !== 'select' || !timelineRef.current) return;
+    if ((e.target as HTMLElement).closest('.timeline-item')) return;
     
-    // Update resize start position for next move
-    setResizeStartPos(e.clientX);
+    const rect = timelineRef.current.getBoundingClientRect();
+    marqueeRef.current = {
+      startX: e.clientX - rect.left,
+      startY: e.clientY - rect.top,
+      additive: e.shiftKey || e.ctrlKey || e.metaKey,
+      moved: false
+    };
+    
+    document.addEventListener('mousemove', handleMarqueeMove);
+    document.addEventListener('mouseup', handleMarqueeEnd);
+  };
+  
+  // Rectangle between where the marquee started and the pointer
+  const getMarqueeRect = (e: MouseEvent) => {
+    const start = marqueeRef.current;
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!start || !rect) return null;
+    
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    return {
+      left: Math.min(start.startX, x),
+      top: Math.min(start.startY, y),
+      width: Math.abs(x - start.startX),
+      height: Math.abs(y - start.startY)
+    };
+  };
+  
+  const handleMarqueeMove = (e: MouseEvent) => {
+    const marqueeState = marqueeRef.current;
+    const rect = getMarqueeRect(e);
+    if (!marqueeState || !rect) return;
+    
+    marqueeState.moved = marqueeState.moved || rect.width > 4 || rect.height > 4;
+    if (marqueeState.moved) {
+      setMarquee(rect);
+    }
+  };
+  
+  const handleMarqueeEnd = (e: MouseEvent) => {
+    document.removeEventListener('mousemove', handleMarqueeMove);
+    document.removeEventListener('mouseup', handleMarqueeEnd);
+    
+    const marqueeState = marqueeRef.current;
+    const rect = getMarqueeRect(e);
+    marqueeRef.current = null;
+    setMarquee(null);
+    if (!marqueeState || !rect) return;
+    
+    // A click on empty space clears the selection
+    if (!marqueeState.moved) {
+      if (!marqueeState.additive) onSelectionChange?.([]);
+      return;
+    }
+    
+    const hitIds = items
+      .filter(item => {
+        const track = tracksById.get(item.trackId);
+        if (!track) return false;
+        const top = (trackOffsets.get(track.id) ?? 0) + 4;
+        const left = item.start * scale;
+        return left < rect.left + rect.width &&
+          left + item.duration * scale > rect.left &&
+          top < rect.top + rect.height &&
+          top + track.height - 8 > rect.top;
+      })
+      .map(item => item.id);
+    
+    const ids = getLinkedIds(items, hitIds);
+    onSelectionChange?.(marqueeState.additive ? Array.from(new Set([...selectedIds, ...ids])) : ids);
+    suppressClickRef.current = true;
   };
   
   // Handle resize end
   const handleResizeEnd = () => {
+    const resize = resizeRef.current;
+    resizeRef.current = null;
     setIsResizing(false);
-    setResizeDirection(null);
-    setResizeItem(null);
     setShowPositionTooltip(false);
     
     // Remove event listeners
     document.removeEventListener('mousemove', handleResizeMove);
     document.removeEventListener('mouseup', handleResizeEnd);
     
-    if (resizeItem) {
+    if (resize && resize.lastItem !== resize.item) {
       toast.success('Clip trimmed', {
-        description: `${resizeItem.name} has been adjusted`
+        description: `${resize.item.name} has been adjusted`
       });
     }
   };
@@ -421,6 +689,7 @@ const Timeline = ({
   // Handle drag over for tracks
   const handleTrackDragOver = (e: React.DragEvent, trackId: string) => {
     e.preventDefault();
+    if (draggedTrackId) return;
     
     // Add a hover effect to the track
     e.currentTarget.classList.add('bg-editor-hover/30');
@@ -448,6 +717,25 @@ const Timeline = ({
     e.preventDefault();
     e.currentTarget.classList.remove('bg-editor-hover/30');
     
+    // Track labels being reordered are not media drops
+    if (draggedTrackId) return;
+
+    // Transitions only land on the cut markers, which handle their own drops
+    if (e.dataTransfer.types.includes(TRANSITION_DRAG_TYPE)) {
+      toast.info('Drop transitions on the cut between two touching clips');
+      return;
+    }
+
+    const track = tracksById.get(trackId);
+    if (!track) return;
+    
+    if (track.locked) {
+      toast.error('Track is locked', {
+        description: `Unlock ${track.name} to add items to it`
+      });
+      return;
+    }
+    
     try {
       const itemData = e.dataTransfer.getData('application/json');
       
@@ -458,21 +746,6 @@ const Timeline = ({
       
       const droppedItem = JSON.parse(itemData);
       
-      // Check if the item has an allowedTrack restriction
-      if (droppedItem.allowedTrack && droppedItem.allowedTrack !== trackId) {
-        toast.error('Cannot place item', {
-          description: `This item can only be placed in the ${droppedItem.allowedTrack === 'track1' ? 'video' : 'audio'} track`
-        });
-        return;
-      }
-      
-      // Get track number
-      const trackNumber = parseInt(trackId.replace('track', ''));
-      
-      // Determine track type based on track number
-      const isVideoTrack = trackNumber <= 1; // First track is video
-      const isAudioTrack = trackNumber >= 2 && trackNumber <= 4; // Tracks 2-4 are audio
-      
       // Identify item type from either its type property or other characteristics
       let itemType = droppedItem.type?.toLowerCase();
       
@@ -488,16 +761,9 @@ const Timeline = ({
       }
       
       // Validation for track compatibility
-      if (isVideoTrack && itemType === 'audio') {
-        toast.error('Cannot place audio item on video track', {
-          description: 'Please use an audio track instead'
-        });
-        return;
-      }
-      
-      if (isAudioTrack && itemType === 'video') {
-        toast.error('Cannot place video item on audio track', {
-          description: 'Please use a video track instead'
+      if (!canPlaceOnTrack({ type: itemType || 'video' }, track)) {
+        toast.error(`Cannot place ${itemType || 'video'} item on ${track.kind} track`, {
+          description: `Please use ${track.kind === 'video' ? 'an audio' : 'a video'} track instead`
         });
         return;
       }
@@ -514,10 +780,14 @@ const Timeline = ({
         .filter(item => item.trackId === trackId)
         .sort((a, b) => a.start - b.start);
       
-      // Determine drop position - at start if track is empty, or after last item
+      // Determine drop position - in ripple mode insert where the item was
+      // dropped, otherwise at start if track is empty, or after last item
       let dropPosition = 0;
       
-      if (itemsInTrack.length > 0) {
+      if (rippleMode !== 'off') {
+        const rect = e.currentTarget.getBoundingClientRect();
+        dropPosition = Math.max(0, (e.clientX - rect.left) / scale);
+      } else if (itemsInTrack.length > 0) {
         // Find the last item in the track and place after it
         const lastItem = itemsInTrack[itemsInTrack.length - 1];
         dropPosition = lastItem.start + lastItem.duration;
@@ -556,21 +826,21 @@ const Timeline = ({
   
   // Handle item delete
   const handleItemDelete = (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (item && isItemLocked(item)) {
+      toast.info('Track is locked');
+      return;
+    }
+    
     onRemoveItem(id);
     toast.success('Item removed from timeline');
-    if (onSelectItem && selectedItem?.id === id) {
-      onSelectItem(null);
-    }
   };
   
-  // Handle volume change for individual audio or video clip
+  // Handle volume change for individual audio or video clip, at the playhead if its volume is animated
   const handleVolumeChange = (id: string, newVolume: number) => {
     const item = items.find(i => i.id === id);
     if (item && onUpdateItem) {
-      onUpdateItem({
-        ...item,
-        volume: newVolume
-      });
+      onUpdateItem(setPropertyValue(item, 'volume', currentTime, newVolume));
       
       toast.success(`${item.type.charAt(0).toUpperCase() + item.type.slice(1)} volume updated`, {
         description: `Volume set to ${Math.round(newVolume * 100)}%`
@@ -611,17 +881,21 @@ const Timeline = ({
     }
   };
   
-  // Handle trim adjustment
+  // Handle trim adjustment: trimming either end shortens the clip, so what
+  // plays is always `duration` seconds from `trimStart`
   const handleTrimChange = (id: string, type: 'start' | 'end', value: number) => {
     const item = items.find(i => i.id === id);
     if (item && onUpdateItem) {
-      const updatedItem = { ...item };
+      const updatedItem = setItemTrim(item, type, value);
       
-      if (type === 'start') {
-        updatedItem.trimStart = value;
-      } else {
-        updatedItem.trimEnd = value;
-      }
+      // Taking the trim back lengthens the clip, which mustn't run into its neighbours
+      const overlaps = items.some(other =>
+        other.id !== item.id &&
+        other.trackId === item.trackId &&
+        updatedItem.start < other.start + other.duration &&
+        updatedItem.start + updatedItem.duration > other.start
+      );
+      if (overlaps || updatedItem.duration === item.duration) return;
       
       onUpdateItem(updatedItem);
       toast.success(`Trim ${type} adjusted`, {
@@ -630,99 +904,107 @@ const Timeline = ({
     }
   };
   
-  // Handle keyboard shortcuts for fine-tuning selected item position
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (!selectedItem || !onUpdateItem) return;
+  // Move the selected clips by a step, keeping them clear of other clips
+  const nudgeSelection = (direction: -1 | 1, large: boolean) => {
+    const step = large ? 1 : 0.1; // 1 second with shift, 0.1 second without
+    const ids = getLinkedIds(items, selectedIds).filter(id =>
+      items.some(item => item.id === id && !isItemLocked(item))
+    );
+    if (ids.length === 0 || !onUpdateItems) return;
     
-    const nudgeAmount = e.shiftKey ? 1 : 0.1; // 1 second with shift, 0.1 second without
-    let newItem = { ...selectedItem };
-    let updated = false;
+    const moved = moveItems(items, ids, direction * step);
+    if (!moved) return;
     
-    // Get overlapping items in the same track
-    const overlappingItems = items.filter(item => 
-      item.id !== selectedItem.id && 
-      item.trackId === selectedItem.trackId
-    );
+    onUpdateItems(moved.filter(item => ids.includes(item.id)));
+    toast.info(`${ids.length === 1 ? 'Item' : `${ids.length} items`} ${large ? 'moved by 1s' : 'fine-tuned by 0.1s'}`);
+  };
+  
+  // Shorten (-1) or extend (1) one edge of the selected clip by a step
+  const trimSelectedEdge = (edge: 'start' | 'end', change: -1 | 1, large: boolean) => {
+    if (!selectedItem || !onUpdateItem || isItemLocked(selectedItem)) return;
     
-    const checkOverlap = (start: number, duration: number) => {
-      return overlappingItems.some(item => 
-        start < (item.start + item.duration) && 
-        (start + duration) > item.start
-      );
-    };
+    const step = large ? 1 : 0.1;
+    let updated: TimelineItem;
     
-    switch (e.key) {
-      case 'ArrowLeft':
-        // Move item left
-        const newStartLeft = Math.max(0, newItem.start - nudgeAmount);
-        if (!checkOverlap(newStartLeft, newItem.duration)) {
-          newItem.start = newStartLeft;
-          updated = true;
-        }
-        break;
-      case 'ArrowRight':
-        // Move item right
-        const newStartRight = newItem.start + nudgeAmount;
-        if (!checkOverlap(newStartRight, newItem.duration)) {
-          newItem.start = newStartRight;
-          updated = true;
-        }
-        break;
-      case '[':
-      case '{':
-        // Decrease duration from start
-        if (newItem.duration > 0.5) {
-          const decrease = Math.min(nudgeAmount, newItem.duration - 0.5);
-          const newStart = newItem.start + decrease;
-          const newDuration = newItem.duration - decrease;
-          if (!checkOverlap(newStart, newDuration)) {
-            newItem.start = newStart;
-            newItem.duration = newDuration;
-            updated = true;
-          }
-        }
-        break;
-      case ']':
-      case '}':
-        // Increase duration from start
-        const newStartExpand = Math.max(0, newItem.start - nudgeAmount);
-        const newDurationExpand = newItem.duration + nudgeAmount;
-        if (!checkOverlap(newStartExpand, newDurationExpand)) {
-          newItem.start = newStartExpand;
-          newItem.duration = newDurationExpand;
-          updated = true;
-        }
-        break;
-      case '-':
-      case '_':
-        // Decrease duration from end
-        if (newItem.duration > 0.5) {
-          newItem.duration = Math.max(0.5, newItem.duration - nudgeAmount);
-          updated = true;
-        }
-        break;
-      case '=':
-      case '+':
-        // Increase duration from end
-        newItem.duration = newItem.duration + nudgeAmount;
-        updated = true;
-        break;
+    // Each edge trims its end of the source, as dragging it does
+    if (edge === 'start') {
+      const { start, duration } = selectedItem;
+      const trimStart = selectedItem.trimStart || 0;
+      const extension = change < 0 ? -Math.min(step, duration - 0.5) : Math.min(step, start, trimStart);
+      updated = { ...selectedItem, start: start - extension, duration: duration + extension, trimStart: trimStart - extension };
+    } else {
+      updated = setItemDuration(selectedItem, selectedItem.duration + change * step);
     }
     
-    if (updated) {
-      e.preventDefault();
-      onUpdateItem(newItem);
-      toast.info(`Item ${e.shiftKey ? 'moved/resized by 1s' : 'fine-tuned by 0.1s'}`);
+    const overlaps = items.some(item =>
+      item.id !== selectedItem.id &&
+      item.trackId === selectedItem.trackId &&
+      updated.start < item.start + item.duration &&
+      updated.start + updated.duration > item.start
+    );
+    if (updated.duration === selectedItem.duration || overlaps) return;
+    
+    onUpdateItem(updated);
+    toast.info(`Item ${large ? 'resized by 1s' : 'fine-tuned by 0.1s'}`);
+  };
+  
+  const addMarker = (time: number) => {
+    onMarkersChange?.(sortMarkers([...markers, createMarker(time, markers)]));
+  };
+  
+  const updateMarker = (marker: TimelineMarker, coalesceKey?: string) => {
+    onMarkersChange?.(sortMarkers(markers.map(other => other.id === marker.id ? marker : other)), coalesceKey);
+  };
+  
+  const removeMarker = (id: string) => {
+    onMarkersChange?.(markers.filter(marker => marker.id !== id));
+  };
+  
+  // Clip markers are timed in the clip's source, so they stay on their frame
+  const addClipMarker = () => {
+    if (!selectedItem || !onUpdateItem || isItemLocked(selectedItem)) return;
+    if (currentTime < selectedItem.start || currentTime > selectedItem.start + selectedItem.duration) {
+      toast.info('Move the playhead over the selected clip to mark it');
+      return;
     }
-  }, [selectedItem, onUpdateItem, items]);
+    
+    const existing = selectedItem.markers ?? [];
+    const time = (selectedItem.trimStart || 0) + currentTime - selectedItem.start;
+    onUpdateItem({ ...selectedItem, markers: sortMarkers([...existing, createMarker(time, existing)]) });
+  };
   
-  // Add keyboard event listener
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [handleKeyDown]);
+  const updateClipMarker = (item: TimelineItem, marker: TimelineMarker) => {
+    const clipMarkers = (item.markers ?? []).map(other => other.id === marker.id ? marker : other);
+    onUpdateItem?.({ ...item, markers: sortMarkers(clipMarkers) });
+  };
+  
+  const removeClipMarker = (item: TimelineItem, id: string) => {
+    const clipMarkers = (item.markers ?? []).filter(marker => marker.id !== id);
+    onUpdateItem?.({ ...item, markers: clipMarkers.length > 0 ? clipMarkers : undefined });
+  };
+  
+  useShortcuts(keymap, {
+    'split': () => onSplitItems?.(currentTime, selectedItem ? [selectedItem.id] : undefined),
+    'tool-select': () => setActiveTool('select'),
+    'tool-razor': () => setActiveTool('razor'),
+    'delete': () => {
+      if (selectedIds.length > 0) onRemoveItems?.(selectedIds);
+    },
+    'copy': () => {
+      if (selectedIds.length > 0) onCopyItems?.(selectedIds);
+    },
+    'paste': () => onPasteItems?.(currentTime),
+    'select-all': () => onSelectionChange?.(items.map(item => item.id)),
+    'deselect': () => onSelectionChange?.([]),
+    'nudge-left': e => nudgeSelection(-1, e.shiftKey),
+    'nudge-right': e => nudgeSelection(1, e.shiftKey),
+    'trim-start-shorten': e => trimSelectedEdge('start', -1, e.shiftKey),
+    'trim-start-extend': e => trimSelectedEdge('start', 1, e.shiftKey),
+    'trim-end-shorten': e => trimSelectedEdge('end', -1, e.shiftKey),
+    'trim-end-extend': e => trimSelectedEdge('end', 1, e.shiftKey),
+    'add-marker': () => addMarker(currentTime),
+    'add-clip-marker': addClipMarker
+  }, shortcutsEnabled);
   
   // Update playhead position when currentTime changes
   useEffect(() => {
@@ -747,8 +1029,85 @@ const Timeline = ({
     };
   }, []);
   
-  // Get track identifier
-  const getTrackId = (index: number) => `track${index + 1}`;
+  // Update a single track
+  const updateTrack = (id: string, changes: Partial<Track>) => {
+    onTracksChange(tracksRef.current.map(track => track.id === id ? { ...track, ...changes } : track));
+  };
+  
+  // Add a new track below the existing ones
+  const handleAddTrack = (kind: TrackKind) => {
+    const track = createTrack(kind, tracks);
+    onTracksChange([...tracks, track]);
+    toast.success(`Added ${track.name}`);
+  };
+  
+  // Delete a track along with its items
+  const handleDeleteTrack = (track: Track) => {
+    if (tracks.filter(t => t.kind === track.kind).length <= 1) {
+      toast.info(`Keep at least one ${track.kind} track`);
+      return;
+    }
+    
+    const itemCount = items.filter(item => item.trackId === track.id).length;
+    onTracksChange(tracks.filter(t => t.id !== track.id));
+    toast.success(`Deleted ${track.name}`, {
+      description: itemCount > 0 ? `${itemCount} item${itemCount === 1 ? '' : 's'} removed from the timeline` : undefined
+    });
+  };
+  
+  // Start renaming a track
+  const startRenameTrack = (track: Track) => {
+    setEditingTrackId(track.id);
+    setTrackNameDraft(track.name);
+  };
+  
+  // Commit the track name being edited
+  const commitRenameTrack = () => {
+    const name = trackNameDraft.trim();
+    if (editingTrackId && name) {
+      updateTrack(editingTrackId, { name });
+    }
+    setEditingTrackId(null);
+  };
+  
+  // Move the dragged track label to the position of the one it was dropped on
+  const handleTrackLabelDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (!draggedTrackId || draggedTrackId === targetId) return;
+    
+    const reordered = tracks.filter(track => track.id !== draggedTrackId);
+    const targetIndex = tracks.findIndex(track => track.id === targetId);
+    reordered.splice(targetIndex, 0, tracks.find(track => track.id === draggedTrackId)!);
+    
+    onTracksChange(reordered);
+    setDraggedTrackId(null);
+  };
+  
+  // Handle dragging the bottom edge of a track label to change its height
+  const handleTrackResizeStart = (e: React.MouseEvent, track: Track) => {
+    e.preventDefault();
+    e.stopPropagation();
+    trackResizeRef.current = { trackId: track.id, startY: e.clientY, startHeight: track.height };
+    
+    document.addEventListener('mousemove', handleTrackResizeMove);
+    document.addEventListener('mouseup', handleTrackResizeEnd);
+  };
+  
+  const handleTrackResizeMove = (e: MouseEvent) => {
+    const resize = trackResizeRef.current;
+    if (!resize) return;
+    
+    const height = Math.round(Math.min(MAX_TRACK_HEIGHT, Math.max(MIN_TRACK_HEIGHT, resize.startHeight + e.clientY - resize.startY)));
+    if (height !== tracksRef.current.find(track => track.id === resize.trackId)?.height) {
+      updateTrack(resize.trackId, { height });
+    }
+  };
+  
+  const handleTrackResizeEnd = () => {
+    trackResizeRef.current = null;
+    document.removeEventListener('mousemove', handleTrackResizeMove);
+    document.removeEventListener('mouseup', handleTrackResizeEnd);
+  };
   
   return (
     <div className="flex flex-col h-full overflow-hidden bg-[#151514]">
@@ -763,16 +1122,76 @@ const Timeline = ({
           </button>
           
           <div className="text-[#F7F8F6]/80 text-xs font-medium">
-            {`${Math.floor(currentTime / 60).toString().padStart(2, '0')}:${Math.floor(currentTime % 60).toString().padStart(2, '0')} / ${Math.floor(duration / 60).toString().padStart(2, '0')}:${Math.floor(duration % 60).toString().padStart(2, '0')}`}
+            {`${formatTimecode(currentTime, fps)} / ${formatTimecode(duration, fps)}`}
           </div>
         </div>
         
         <div className="flex-1" />
+        
+        <div className="flex items-center space-x-1">
+          <button
+            className={cn(
+              "px-2 h-6 rounded text-xs transition-colors",
+              activeTool === 'select' ? "bg-[#D7F266] text-[#151514]" : "text-[#F7F8F6]/70 hover:bg-white/10"
+            )}
+            onClick={() => setActiveTool('select')}
+            title="Selection tool (V)"
+          >
+            Select
+          </button>
+          <button
+            className={cn(
+              "px-2 h-6 rounded text-xs flex items-center gap-1 transition-colors",
+              activeTool === 'razor' ? "bg-[#D7F266] text-[#151514]" : "text-[#F7F8F6]/70 hover:bg-white/10"
+            )}
+            onClick={() => setActiveTool('razor')}
+            title="Razor tool (C) - click a clip to cut it"
+          >
+            <Scissors size={12} /> Razor
+          </button>
+          
+          <div className="h-4 w-px bg-white/20 mx-1" />
+          
+          <span className="text-xs text-[#F7F8F6]/60 mr-1">Ripple:</span>
+          {([['off', 'Off'], ['track', 'Track'], ['all', 'All tracks']] as [RippleMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              className={cn(
+                "px-2 h-6 rounded text-xs transition-colors",
+                rippleMode === mode ? "bg-[#D7F266] text-[#151514]" : "text-[#F7F8F6]/70 hover:bg-white/10"
+              )}
+              onClick={() => onRippleModeChange?.(mode)}
+              title={mode === 'off'
+                ? 'Edits leave gaps'
+                : `Delete, trim and insert shift later clips on ${mode === 'track' ? 'the same track' : 'every track'}`}
+            >
+              {label}
+            </button>
+          ))}
+          
+          <div className="h-4 w-px bg-white/20 mx-1" />
+          
+          <span className="text-xs text-[#F7F8F6]/60 mr-1">Curves:</span>
+          <Select
+            value={curveProperty ?? 'off'}
+            onValueChange={(value) => setCurveProperty(value === 'off' ? null : value as KeyframeProperty)}
+          >
+            <SelectTrigger className="h-6 w-24 px-2 text-xs bg-transparent border-white/20 text-[#F7F8F6]" title="Show a property as a curve on each clip to keyframe it">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#1A1A19] border-white/20">
+              <SelectItem value="off">Off</SelectItem>
+              {(Object.keys(KEYFRAME_PROPERTIES) as KeyframeProperty[]).map(property => (
+                <SelectItem key={property} value={property}>{KEYFRAME_PROPERTIES[property].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       
       {/* Timeline ruler */}
       <div className="flex h-6 border-b border-white/10 bg-[#151514]/80 relative overflow-hidden">
-        <div className="w-16 bg-[#151514] border-r border-white/10 shrink-0 flex items-center justify-center">
+        <div className="w-40 bg-[#151514] border-r border-white/10 shrink-0 flex items-center justify-center">
           <Clock size={12} className="mr-1 text-[#F7F8F6]/50" />
           <span className="text-xs text-[#F7F8F6]/70">Time</span>
         </div>
@@ -781,47 +1200,264 @@ const Timeline = ({
           style={{ width: timelineWidth }}
           ref={containerRef}
         >
-          <div style={{ width: timelineWidth, height: '100%' }} className="flex">
-            {timeMarkers.map(time => (
-              <div 
-                key={time} 
-                className="time-marker text-xs text-[#F7F8F6]/60" 
-                style={{ width: `${markerInterval * scale}px` }}
+          <ContextMenu>
+            <ContextMenuTrigger asChild>
+              <div
+                style={{ width: timelineWidth, height: '100%' }}
+                className="flex relative"
+                onContextMenu={(e) => {
+                  const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+                  setRulerMenuTime(Math.max(0, Math.round((x / scale) * fps) / fps));
+                }}
               >
-                {`${Math.floor(time / 60).toString().padStart(2, '0')}:${Math.floor(time % 60).toString().padStart(2, '0')}`}
+                {(inPoint !== null || outPoint !== null) && (
+                  <div
+                    className="absolute top-0 bottom-0 bg-[#D7F266]/20 border-x-2 border-[#D7F266] pointer-events-none"
+                    style={{
+                      left: `${(inPoint ?? 0) * scale}px`,
+                      width: `${Math.max(0, (outPoint ?? duration) - (inPoint ?? 0)) * scale}px`
+                    }}
+                  />
+                )}
+                {timeMarkers.map(time => (
+                  <div 
+                    key={time} 
+                    className="time-marker text-xs text-[#F7F8F6]/60" 
+                    style={{ width: `${markerInterval * scale}px` }}
+                  >
+                    {`${Math.floor(time / 60).toString().padStart(2, '0')}:${Math.floor(time % 60).toString().padStart(2, '0')}`}
+                  </div>
+                ))}
+                {markers.map(marker => (
+                  <MarkerFlag
+                    key={marker.id}
+                    marker={marker}
+                    left={marker.time * scale}
+                    scale={scale}
+                    fps={fps}
+                    minTime={0}
+                    maxTime={duration}
+                    locked={!onMarkersChange}
+                    placement="ruler"
+                    onChange={updateMarker}
+                    onRemove={() => removeMarker(marker.id)}
+                    onSelect={() => onSeek(marker.time)}
+                  />
+                ))}
               </div>
-            ))}
-          </div>
+            </ContextMenuTrigger>
+            <ContextMenuContent className="bg-[#1A1A19] border-white/20 text-white">
+              <ContextMenuItem
+                onSelect={() => {
+                  onInPointChange?.(rulerMenuTime);
+                  if (outPoint !== null && outPoint <= rulerMenuTime) onOutPointChange?.(null);
+                }}
+              >
+                Set in point at {formatTimecode(rulerMenuTime, fps)}
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  onOutPointChange?.(rulerMenuTime);
+                  if (inPoint !== null && inPoint >= rulerMenuTime) onInPointChange?.(null);
+                }}
+              >
+                Set out point at {formatTimecode(rulerMenuTime, fps)}
+              </ContextMenuItem>
+              <ContextMenuItem disabled={!onMarkersChange} onSelect={() => addMarker(rulerMenuTime)}>
+                Add marker at {formatTimecode(rulerMenuTime, fps)}
+              </ContextMenuItem>
+              <ContextMenuSeparator className="bg-white/10" />
+              <ContextMenuItem
+                disabled={inPoint === null && outPoint === null}
+                onSelect={() => {
+                  onInPointChange?.(null);
+                  onOutPointChange?.(null);
+                }}
+              >
+                Clear in and out points
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
         </div>
       </div>
       
       {/* Timeline tracks */}
-      <div className="flex-1 flex flex-row overflow-hidden">
+      <div className="flex-1 flex flex-row overflow-y-auto overflow-x-hidden">
         {/* Track labels */}
-        <div className="w-16 shrink-0 bg-[#151514] border-r border-white/10">
-          {tracks.map((track, index) => (
+        <div className="w-40 shrink-0 bg-[#151514] border-r border-white/10" style={{ minHeight: tracksHeight }}>
+          {tracks.map(track => (
             <div 
-              key={index} 
+              key={track.id} 
               className={cn(
-                "timeline-track flex items-center justify-start px-2 text-[#F7F8F6]/70 text-xs h-10",
-                index === 0 ? "bg-yellow-950/30" : // Video track
-                index < 3 ? "bg-blue-950/30" : // Audio tracks
-                "bg-green-950/30" // Voiceover track
+                "timeline-track flex items-center gap-1 pl-1 pr-2 text-[#F7F8F6]/70 text-xs group/track",
+                track.kind === 'video' ? "bg-yellow-950/30" : "bg-blue-950/30",
+                draggedTrackId === track.id && "opacity-50"
               )}
+              style={{ height: track.height }}
+              draggable={editingTrackId !== track.id}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedTrackId(track.id);
+              }}
+              onDragEnd={() => setDraggedTrackId(null)}
+              onDragOver={(e) => draggedTrackId && e.preventDefault()}
+              onDrop={(e) => handleTrackLabelDrop(e, track.id)}
             >
-              {track}
+              <GripVertical size={12} className="shrink-0 text-[#F7F8F6]/30 cursor-grab" />
+              
+              {editingTrackId === track.id ? (
+                <input
+                  autoFocus
+                  value={trackNameDraft}
+                  onChange={(e) => setTrackNameDraft(e.target.value)}
+                  onBlur={commitRenameTrack}
+                  onKeyDown={(e) => {
+                    e.stopPropagation();
+                    if (e.key === 'Enter') commitRenameTrack();
+                    if (e.key === 'Escape') setEditingTrackId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-[#242423] border border-white/20 rounded px-1 text-xs text-[#F7F8F6] outline-none"
+                />
+              ) : (
+                <span 
+                  className="flex-1 min-w-0 truncate cursor-text"
+                  title="Double-click to rename"
+                  onDoubleClick={() => startRenameTrack(track)}
+                >
+                  {track.name}
+                </span>
+              )}
+              
+              <div className="flex items-center gap-0.5 shrink-0">
+                {track.kind === 'video' ? (
+                  <button
+                    className={cn("p-0.5 hover:text-white", track.hidden && "text-[#D7F266]")}
+                    onClick={() => updateTrack(track.id, { hidden: !track.hidden })}
+                    title={track.hidden ? 'Show track' : 'Hide track'}
+                  >
+                    {track.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                  </button>
+                ) : (
+                  <button
+                    className={cn("p-0.5 hover:text-white", track.solo && "text-[#D7F266]")}
+                    onClick={() => updateTrack(track.id, { solo: !track.solo })}
+                    title={track.solo ? 'Unsolo track' : 'Solo track'}
+                  >
+                    <Headphones size={12} />
+                  </button>
+                )}
+                <button
+                  className={cn("p-0.5 hover:text-white", track.mute && "text-[#D7F266]")}
+                  onClick={() => updateTrack(track.id, { mute: !track.mute })}
+                  title={track.mute ? 'Unmute track' : 'Mute track'}
+                >
+                  {track.mute ? <VolumeX size={12} /> : <Volume2 size={12} />}
+                </button>
+                <button
+                  className={cn("p-0.5 hover:text-white", track.locked && "text-[#D7F266]")}
+                  onClick={() => updateTrack(track.id, { locked: !track.locked })}
+                  title={track.locked ? 'Unlock track' : 'Lock track'}
+                >
+                  {track.locked ? <Lock size={12} /> : <Unlock size={12} />}
+                </button>
+                <button
+                  className="p-0.5 hover:text-white opacity-0 group-hover/track:opacity-100 disabled:opacity-0"
+                  onClick={() => onCloseGaps?.(track.id)}
+                  disabled={track.locked}
+                  title="Close all gaps"
+                >
+                  <ChevronsLeft size={12} />
+                </button>
+                <button
+                  className="p-0.5 hover:text-white opacity-0 group-hover/track:opacity-100"
+                  onClick={() => handleDeleteTrack(track)}
+                  title="Delete track"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              
+              {/* Height resize handle */}
+              <div
+                className="absolute left-0 right-0 bottom-0 h-1 cursor-ns-resize hover:bg-white/20"
+                onMouseDown={(e) => handleTrackResizeStart(e, track)}
+              />
             </div>
           ))}
+          
+          <div className="flex items-center gap-1 p-1">
+            <button
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-[#F7F8F6]/70 hover:text-[#D7F266] hover:bg-white/5"
+              onClick={() => handleAddTrack('video')}
+              title="Add video track"
+            >
+              <Plus size={10} /> Video
+            </button>
+            <button
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-[#F7F8F6]/70 hover:text-[#D7F266] hover:bg-white/5"
+              onClick={() => handleAddTrack('audio')}
+              title="Add audio track"
+            >
+              <Plus size={10} /> Audio
+            </button>
+          </div>
         </div>
         
         {/* Timeline */}
-        <div className="flex-1 overflow-x-auto timeline-scroll-sync">
+        <div className="flex-1 overflow-x-auto overflow-y-hidden timeline-scroll-sync">
           <div 
             ref={timelineRef}
             className="relative overflow-y-hidden"
-            style={{ width: timelineWidth, minHeight: '100%' }}
+            style={{ width: timelineWidth, minHeight: '100%', height: tracksHeight }}
             onClick={handleTimelineClick}
+            onMouseDown={handleMarqueeStart}
+            onMouseMove={(e) => {
+              if (activeTool !== 'razor' || !timelineRef.current) return;
+              setRazorHoverX(e.clientX - timelineRef.current.getBoundingClientRect().left);
+            }}
+            onMouseLeave={() => setRazorHoverX(null)}
           >
+            {/* In/out range */}
+            {(inPoint !== null || outPoint !== null) && (
+              <div
+                className="absolute top-0 bottom-0 bg-white/5 border-x border-[#D7F266]/60 z-0 pointer-events-none"
+                style={{
+                  left: `${(inPoint ?? 0) * scale}px`,
+                  width: `${Math.max(0, (outPoint ?? duration) - (inPoint ?? 0)) * scale}px`
+                }}
+              />
+            )}
+            
+            {/* Ruler markers and the regions they comment on */}
+            {markers.map(marker => (
+              <div
+                key={`marker-${marker.id}`}
+                className="absolute top-0 bottom-0 z-0 pointer-events-none border-l"
+                style={{
+                  left: `${marker.time * scale}px`,
+                  width: `${Math.max(1, marker.duration * scale)}px`,
+                  borderColor: marker.color,
+                  backgroundColor: marker.duration > 0 ? `${marker.color}14` : undefined
+                }}
+              />
+            ))}
+            
+            {/* Marquee selection */}
+            {marquee && (
+              <div
+                className="absolute border border-[#D7F266] bg-[#D7F266]/10 z-30 pointer-events-none"
+                style={marquee}
+              />
+            )}
+            
+            {/* Razor cut guide */}
+            {activeTool === 'razor' && razorHoverX !== null && (
+              <div
+                className="absolute top-0 bottom-0 w-px bg-red-400 z-20 pointer-events-none"
+                style={{ left: `${razorHoverX}px` }}
+              />
+            )}
+            
             {/* Playhead */}
             <div ref={playheadRef} className="playhead">
               <div className="absolute -top-1 -left-[5px] w-[10px] h-[10px] bg-[#D7F266] rounded-full" />
@@ -829,18 +1465,18 @@ const Timeline = ({
             </div>
             
             {/* Track backgrounds */}
-            {tracks.map((_, index) => (
+            {tracks.map(track => (
               <div 
-                key={`track-${index}`}
+                key={`track-${track.id}`}
                 className={cn(
-                  "timeline-track h-10",
-                  index === 0 ? "bg-yellow-950/10" : // Video track
-                  index < 3 ? "bg-blue-950/10" : // Audio tracks
-                  "bg-green-950/10" // Voiceover track
+                  "timeline-track",
+                  track.kind === 'video' ? "bg-yellow-950/10" : "bg-blue-950/10",
+                  track.locked && "bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(255,255,255,0.03)_6px,rgba(255,255,255,0.03)_12px)]"
                 )}
-                onDragOver={(e) => handleTrackDragOver(e, getTrackId(index))}
+                style={{ height: track.height }}
+                onDragOver={(e) => handleTrackDragOver(e, track.id)}
                 onDragLeave={handleTrackDragLeave}
-                onDrop={(e) => handleTrackDrop(e, getTrackId(index))}
+                onDrop={(e) => handleTrackDrop(e, track.id)}
               />
             ))}
             
@@ -853,22 +1489,45 @@ const Timeline = ({
               />
             ))}
             
+            {/* Cuts between touching clips, where transitions go */}
+            {cutPairs.map(({ from, to }) => {
+              const track = tracksById.get(to.trackId);
+              if (!track) return null;
+              
+              return (
+                <TransitionMarker
+                  key={`cut-${to.id}`}
+                  from={from}
+                  to={to}
+                  scale={scale}
+                  top={trackOffsets.get(track.id) ?? 0}
+                  height={track.height}
+                  locked={track.locked}
+                  onChange={(transition) => onUpdateItem?.({ ...to, transitionIn: transition })}
+                />
+              );
+            })}
+            
             {/* Timeline items */}
             {items.map(item => {
-              const trackIndex = parseInt(item.trackId.replace('track', '')) - 1;
-              const isSelected = selectedItem?.id === item.id;
+              const track = tracksById.get(item.trackId);
+              if (!track) return null;
+              const isSelected = selectedIds.includes(item.id);
               
               return (
                 <div
                   key={item.id}
                   className={cn(
-                    "absolute timeline-item h-8 flex flex-col justify-center px-2 text-white z-10 group cursor-move",
+                    "absolute timeline-item flex flex-col justify-center px-2 text-white z-10 group",
+                    track.locked ? "cursor-not-allowed" : activeTool === 'razor' ? "cursor-crosshair" : "cursor-move",
                     item.color,
                     isDragging && draggedItem?.id === item.id && "opacity-50",
+                    (track.hidden || track.mute) && "opacity-40",
                     isSelected && "ring-2 ring-[#D7F266] ring-offset-0"
                   )}
                   style={{
-                    top: `${trackIndex * 40 + 1}px`,
+                    top: `${(trackOffsets.get(track.id) ?? 0) + 4}px`,
+                    height: `${track.height - 8}px`,
                     left: `${item.start * scale}px`,
                     width: `${item.duration * scale}px`,
                   }}
@@ -888,7 +1547,10 @@ const Timeline = ({
                   />
                   
                   <div className="flex justify-between items-center w-full">
-                    <p className="text-xs font-medium truncate">{item.name}</p>
+                    <p className="text-xs font-medium truncate flex items-center gap-1">
+                      {item.linkGroupId && <Link2 size={10} className="shrink-0" />}
+                      {item.name}
+                    </p>
                     <div className="flex items-center gap-1">
                       {(item.type === 'audio' || item.type === 'video') && (
                         <>
@@ -937,6 +1599,44 @@ const Timeline = ({
                     </div>
                   </div>
                   
+                  {(item.type === 'audio' || item.type === 'video') && (
+                    <FadeHandles
+                      item={item}
+                      scale={scale}
+                      height={track.height - 8}
+                      locked={track.locked}
+                      onChange={(updated) => onUpdateItem?.(updated)}
+                    />
+                  )}
+                  
+                  {curveProperty && canAnimate(item, curveProperty) && (
+                    <KeyframeCurve
+                      item={item}
+                      property={curveProperty}
+                      scale={scale}
+                      height={track.height - 8}
+                      locked={track.locked}
+                      onChange={(updated) => onUpdateItem?.(updated)}
+                    />
+                  )}
+                  
+                  {getVisibleClipMarkers(item).map(marker => (
+                    <MarkerFlag
+                      key={marker.id}
+                      marker={marker}
+                      left={(marker.time - (item.trimStart || 0)) * scale}
+                      scale={scale}
+                      fps={fps}
+                      minTime={item.trimStart || 0}
+                      maxTime={(item.trimStart || 0) + item.duration}
+                      locked={track.locked}
+                      placement="clip"
+                      onChange={(updated) => updateClipMarker(item, updated)}
+                      onRemove={() => removeClipMarker(item, marker.id)}
+                      onSelect={() => onSeek(getClipMarkerTime(item, marker))}
+                    />
+                  ))}
+                  
                   {/* Time indicator */}
                   <div className="absolute -bottom-5 left-0 text-[10px] text-white/70 opacity-0 group-hover:opacity-100">
                     {formatTime(item.start)}
@@ -951,7 +1651,7 @@ const Timeline = ({
                   {(item.type === 'audio' || item.type === 'video') && showVolumeControl === item.id && (
                     <div className="mt-1 px-1">
                       <Slider
-                        value={[item.volume || 1]}
+                        value={[getPropertyValue(item, 'volume', currentTime)]}
                         min={0}
                         max={1}
                         step={0.1}
@@ -960,7 +1660,7 @@ const Timeline = ({
                         onClick={(e) => e.stopPropagation()}
                       />
                       <div className="text-[10px] text-white/80 text-center mt-0.5">
-                        {Math.round((item.volume || 1) * 100)}%
+                        {Math.round(getPropertyValue(item, 'volume', currentTime) * 100)}%
                       </div>
                     </div>
                   )}
@@ -975,7 +1675,7 @@ const Timeline = ({
                         <Slider
                           value={[item.trimStart || 0]}
                           min={0}
-                          max={Math.max(item.duration / 2, 5)}
+                          max={(item.trimStart || 0) + item.duration - 0.5}
                           step={0.1}
                           onValueChange={(value) => handleTrimChange(item.id, 'start', value[0])}
                           className="h-1"
@@ -990,7 +1690,7 @@ const Timeline = ({
                         <Slider
                           value={[item.trimEnd || 0]}
                           min={0}
-                          max={Math.max(item.duration / 2, 5)}
+                          max={(item.trimEnd || 0) + item.duration - 0.5}
                           step={0.1}
                           onValueChange={(value) => handleTrimChange(item.id, 'end', value[0])}
                           className="h-1"
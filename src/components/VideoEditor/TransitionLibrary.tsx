@@ -0,0 +1,43 @@
+import React from 'react';
+import { TransitionKind } from './VideoEditor';
+import { TRANSITION_DRAG_TYPE, TRANSITION_KINDS } from '@/lib/transitions';
+
+// A tiny picture of how each transition moves from one clip (grey) to the next (lime)
+const PREVIEW_STYLES: Record<TransitionKind, React.CSSProperties> = {
+  crossfade: { background: 'linear-gradient(90deg, #4b4b48, #D7F266)' },
+  'dip-to-black': { background: 'linear-gradient(90deg, #4b4b48, #000 50%, #D7F266)' },
+  'wipe-left': { background: 'linear-gradient(90deg, #4b4b48 50%, #D7F266 50%)' },
+  'wipe-right': { background: 'linear-gradient(90deg, #D7F266 50%, #4b4b48 50%)' },
+  'slide-left': { background: 'linear-gradient(90deg, #4b4b48 40%, #151514 40% 45%, #D7F266 45%)' },
+  'slide-right': { background: 'linear-gradient(90deg, #D7F266 55%, #151514 55% 60%, #4b4b48 60%)' }
+};
+
+// Transitions to drag onto the cut between two clips
+const TransitionLibrary: React.FC = () => {
+  return (
+    <div className="p-3 space-y-2">
+      <h3 className="text-sm font-semibold text-[#F7F8F6]">Transitions</h3>
+      <p className="text-xs text-white/60">
+        Drag one onto the cut between two touching clips, or click a cut to add one. Click a transition to edit it.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {TRANSITION_KINDS.map(kind => (
+          <div
+            key={kind.value}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(TRANSITION_DRAG_TYPE, kind.value);
+              e.dataTransfer.effectAllowed = 'copy';
+            }}
+            className="rounded bg-[#1A1A19] border border-white/10 hover:border-[#D7F266]/60 p-2 space-y-1 cursor-grab active:cursor-grabbing"
+          >
+            <div className="h-10 rounded" style={PREVIEW_STYLES[kind.value]} />
+            <div className="text-xs text-[#F7F8F6]">{kind.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TransitionLibrary;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Blend, Plus, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipTransition, TimelineItem, TransitionEasing, TransitionKind } from './VideoEditor';
+import {
+  DEFAULT_TRANSITION,
+  isEasable,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_DRAG_TYPE,
+  TRANSITION_EASINGS,
+  TRANSITION_KINDS
+} from '@/lib/transitions';
+import { cn } from '@/lib/utils';
+
+interface TransitionMarkerProps {
+  from: TimelineItem;
+  to: TimelineItem;
+  scale: number; // Pixels per second
+  top: number;
+  height: number;
+  locked: boolean;
+  onChange: (transition: ClipTransition | undefined) => void;
+}
+
+// The cut between two touching clips: drop a transition on it, or click to add or edit one
+const TransitionMarker: React.FC<TransitionMarkerProps> = ({ from, to, scale, top, height, locked, onChange }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const transition = to.transitionIn;
+  const maxDuration = Math.max(MIN_TRANSITION_DURATION, Math.min(from.duration, to.duration));
+  const duration = transition ? Math.min(transition.duration, maxDuration) : 0;
+
+  const update = (changes: Partial<ClipTransition>) => {
+    onChange({ ...DEFAULT_TRANSITION, ...transition, ...changes });
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (locked || !e.dataTransfer.types.includes(TRANSITION_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    const kind = e.dataTransfer.getData(TRANSITION_DRAG_TYPE) as TransitionKind;
+    if (locked || !kind) return;
+    e.preventDefault();
+    e.stopPropagation();
+    update({ kind, duration: Math.min(transition?.duration ?? DEFAULT_TRANSITION.duration, maxDuration) });
+  };
+
+  const width = transition ? Math.max(12, duration * scale) : 14;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild disabled={locked}>
+        <button
+          className={cn(
+            "absolute z-20 flex items-center justify-center rounded-sm transition-opacity",
+            transition
+              ? "bg-[repeating-linear-gradient(135deg,rgba(215,242,102,0.55),rgba(215,242,102,0.55)_4px,rgba(215,242,102,0.25)_4px,rgba(215,242,102,0.25)_8px)] border border-[#D7F266] text-[#151514]"
+              : "bg-[#151514] border border-white/40 text-white/80 opacity-0 hover:opacity-100",
+            isDragOver && "opacity-100 ring-2 ring-[#D7F266]"
+          )}
+          style={{
+            left: `${to.start * scale - width / 2}px`,
+            width: `${width}px`,
+            top: `${top + (transition ? 4 : height / 2 - 7)}px`,
+            height: transition ? `${height - 8}px` : '14px'
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (!transition) update({ duration: Math.min(DEFAULT_TRANSITION.duration, maxDuration) });
+          }}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+          title={transition ? `${TRANSITION_KINDS.find(k => k.value === transition.kind)?.label} (${duration.toFixed(2)}s)` : 'Add transition'}
+        >
+          {transition ? <Blend size={10} /> : <Plus size={10} />}
+        </button>
+      </PopoverTrigger>
+
+      {transition && (
+        <PopoverContent
+          align="center"
+          className="w-64 p-3 space-y-3 bg-[#151514] border-white/10 text-[#F7F8F6]"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-white/50">Transition</h4>
+            <button
+              className="p-1 text-white/60 hover:text-red-400"
+              onClick={() => onChange(undefined)}
+              title="Remove transition"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            {TRANSITION_KINDS.map(kind => (
+              <button
+                key={kind.value}
+                className={cn(
+                  "text-xs rounded py-1 border border-white/20 hover:bg-white/10",
+                  transition.kind === kind.value && "bg-[#D7F266]/20 border-[#D7F266] text-[#D7F266]"
+                )}
+                onClick={() => update({ kind: kind.value })}
+              >
+                {kind.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-white/70">
+              <span>Duration</span>
+              <span>{duration.toFixed(2)}s</span>
+            </div>
+            <Slider
+              value={[duration]}
+              min={MIN_TRANSITION_DURATION}
+              max={maxDuration}
+              step={0.05}
+              onValueChange={([value]) => update({ duration: value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs text-white/70">Easing</span>
+            <Select
+              value={transition.easing}
+              onValueChange={(easing) => update({ easing: easing as TransitionEasing })}
+              disabled={!isEasable(transition.kind)}
+            >
+              <SelectTrigger className="h-8 bg-[#1A1A19] border-white/20 text-xs">
+                <SelectValue placeholder="Easing" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A1A19] border-white/20">
+                {TRANSITION_EASINGS.map(easing => (
+                  <SelectItem key={easing.value} value={easing.value}>{easing.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isEasable(transition.kind) && (
+              <p className="text-xs text-white/50">Slides move at a steady speed.</p>
+            )}
+          </div>
+        </PopoverContent>
+      )}
+    </Popover>
+  );
+};
+
+export default TransitionMarker;
@@ -1,21 +1,42 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import Header from './Header';
 import MediaLibrary from './MediaLibrary';
 import Timeline from './Timeline';
 import Preview from './Preview';
 import { toast } from 'sonner';
-import { Film, Music, TextIcon, Mic, FolderOpen, ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import { Film, Music, Mic, FolderOpen, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2, AlertTriangle, Scissors, Link2, Unlink, Keyboard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import MediaSidebar from './MediaSidebar';
-import { saveProject, saveUserPreferences } from '@/lib/projectService';
+import { loadProject, saveUserPreferences, LoadProjectErrorCode } from '@/lib/projectService';
+import { ProjectDocument, createProjectDocument } from '@/lib/projectDocument';
+import { syncAllLocalProjects, syncLocalProject } from '@/lib/projectSync';
+import { localProjectsDB } from '@/services/LocalProjectsDB';
+import { createTrack, DEFAULT_TRACKS, getRenderableItems, resolveTrackId } from '@/lib/tracks';
+import { applyLinkedTrim, closeTrackGaps, getLinkedIds, linkItems, pasteItems, RippleMode, rippleDelete, rippleInsert, rippleTrim, setItemDuration, splitItemsAt, unlinkItems } from '@/lib/timelineEdits';
+import { Slider } from '@/components/ui/slider';
 import { useQuery } from '@tanstack/react-query';
 import { getUserPreferences } from '@/lib/projectService';
 import { supabase } from '@/integrations/supabase/client';
-import JSZip from 'jszip';
+import { BUNDLE_EXTENSION, exportProjectBundle, importProjectBundle } from '@/lib/projectBundle';
 import ExportService from './ExportService';
+import HistoryPanel from './HistoryPanel';
+import ShortcutsDialog from './ShortcutsDialog';
+import ProjectSettingsDialog from './ProjectSettingsDialog';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { Keymap, resolveKeymap } from '@/lib/shortcuts';
+import { PlaybackClock } from '@/lib/playbackClock';
+import { snapToFrame } from '@/lib/timecode';
+import { DEFAULT_PROJECT_SETTINGS } from '@/lib/projectSettings';
+import { hasSound } from '@/lib/audioMix';
+import { getPropertyValue, setPropertyValue } from '@/lib/keyframes';
+import { findAdjacentMarkerTime, getMarkerTimes } from '@/lib/markers';
+import { createTextItem, DEFAULT_TEXT_DURATION, TextPreset } from '@/lib/textOverlay';
+import { createCommand, createHistory, describeItemChange, describeMarkerChange, describeTrackChange, EditHistory, EditState, jumpToIndex, pushCommand, sealHistory } from '@/lib/editHistory';
 
 declare global {
   interface HTMLVideoElement {
@@ -28,7 +49,7 @@ export interface TimelineItem {
   trackId: string;
   start: number;
   duration: number;
-  type: 'video' | 'audio' | 'image';
+  type: 'video' | 'audio' | 'image' | 'text';
   name: string;
   color: string;
   src?: string;
@@ -37,24 +58,151 @@ export interface TimelineItem {
   muted?: boolean;
   trimStart?: number; // Trim from start in seconds
   trimEnd?: number; // Trim from end in seconds
+  transform?: ClipTransform; // Placement of video, image and text clips in the frame
+  fit?: ClipFit; // How a clip whose shape differs from the frame is sized, 'fit' if unset
+  reframe?: ClipReframe; // Window kept when exporting to another aspect ratio, centred if unset
+  linkGroupId?: string; // Clips sharing a link group are selected, moved and trimmed together
+  text?: ClipText; // What a text clip says and how it looks
+  transitionIn?: ClipTransition; // From the clip ending where this one starts on its track; ignored while there is none
+  keyframes?: ClipKeyframes; // Animated properties, which then ignore their fixed value
+  fadeIn?: number; // Seconds the sound takes to rise from silence at the start of the clip
+  fadeOut?: number; // Seconds the sound takes to fall to silence at the end of the clip
+  markers?: TimelineMarker[]; // Notes on moments of the clip, timed in its source so they move with it
 }
 
+export interface ClipTransform {
+  x: number; // Offset of the clip centre from the frame centre, as a fraction of frame width
+  y: number; // Offset of the clip centre from the frame centre, as a fraction of frame height
+  scale: number; // 1 fits the clip inside the frame
+  rotation: number; // Degrees clockwise
+  opacity: number; // 0-1
+  crop: { top: number; right: number; bottom: number; left: number }; // Fractions of the source size
+}
+
+export type ClipFit = 'fit' | 'fill' | 'stretch';
+
+export type KeyframeProperty = 'volume' | 'opacity' | 'x' | 'y' | 'scale' | 'rotation';
+
+export type KeyframeInterpolation = 'linear' | 'ease' | 'hold';
+
+export interface Keyframe {
+  time: number; // Seconds into the clip's source, so trimming and splitting keep it on the same frame
+  value: number;
+  interpolation: KeyframeInterpolation; // How the value moves on to the next keyframe
+}
+
+export type ClipKeyframes = Partial<Record<KeyframeProperty, Keyframe[]>>; // Each list sorted by time
+
+export type TransitionKind = 'crossfade' | 'dip-to-black' | 'wipe-left' | 'wipe-right' | 'slide-left' | 'slide-right';
+
+export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface ClipTransition {
+  kind: TransitionKind;
+  duration: number; // Seconds, centred on the cut
+  easing: TransitionEasing;
+}
+
+export interface TimelineMarker {
+  id: string;
+  time: number; // Seconds on the timeline, or into the clip's source for clip markers
+  duration: number; // 0 for a point, otherwise the length of the region it comments on
+  name: string;
+  color: string;
+  note: string;
+  chapter: boolean; // Starts a chapter in exported video; only ruler markers can
+}
+
+export interface ClipText {
+  content: string; // Lines separated by \n
+  fontFamily: string;
+  fontSize: number; // Fraction of the frame height
+  bold: boolean;
+  italic: boolean;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  strokeColor: string;
+  strokeWidth: number; // Fraction of the font size, 0 for no outline
+  shadowColor: string;
+  shadowBlur: number; // Fraction of the font size, 0 for no shadow
+  boxColor: string;
+  boxOpacity: number; // 0 for no background box
+}
+
+export interface ClipReframe {
+  x: number; // Pan of the window across the clip, -1 (left edge) to 1 (right edge)
+  y: number; // -1 (top edge) to 1 (bottom edge)
+  zoom: number; // 1 is the largest window that fits the clip
+}
+
+export interface ProjectSettings {
+  fps: number;
+  width: number; // Frame size in pixels
+  height: number;
+  aspectRatio: string; // e.g. "16:9", or "custom"
+  sampleRate: number; // Audio sample rate in Hz
+  backgroundColor: string; // Shown wherever no clip covers the frame
+}
+
+export type TrackKind = 'video' | 'audio';
+
+export interface Track {
+  id: string;
+  kind: TrackKind;
+  name: string;
+  height: number; // Row height in pixels
+  locked: boolean;
+  hidden: boolean;
+  solo: boolean;
+  mute: boolean;
+}
+
+const AUTOSAVE_DELAY = 1500; // ms after the last change
+const MAX_SHUTTLE_SPEED = 8;
+
 const VideoEditor: React.FC = () => {
+  const { projectId: routeProjectId } = useParams<{ projectId?: string }>();
+  const navigate = useNavigate();
+  const [projectId, setProjectId] = useState<string | null>(routeProjectId ?? null);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(600); // Total timeline duration in seconds (10 minutes)
   const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1); // Negative plays backwards
+  const clockRef = useRef(new PlaybackClock());
+  const currentTimeRef = useRef(currentTime);
+  currentTimeRef.current = currentTime;
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
   const [projectName, setProjectName] = useState("Untitled Project");
   const [timelineItems, setTimelineItems] = useState<TimelineItem[]>([]);
+  const [tracks, setTracks] = useState<Track[]>(DEFAULT_TRACKS);
+  const [settings, setSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [markers, setMarkers] = useState<TimelineMarker[]>([]);
+  const fps = settings.fps;
+  const [rippleMode, setRippleMode] = useState<RippleMode>('off');
   const [volume, setVolume] = useState(1);
   const [muted, setMuted] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("visuals");
   const [timelineScale, setTimelineScale] = useState(80); // scale for timeline (pixels per second)
-  const [history, setHistory] = useState<TimelineItem[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const [selectedItem, setSelectedItem] = useState<TimelineItem | null>(null);
+  const [history, setHistory] = useState<EditHistory>(createHistory);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [keymapOverrides, setKeymapOverrides] = useState<Keymap>({});
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isLoadingProject, setIsLoadingProject] = useState(!!routeProjectId);
+  const [loadError, setLoadError] = useState<{ code: LoadProjectErrorCode; message: string } | null>(null);
+  const loadedProjectIdRef = useRef<string | null>(null);
+  const lastSavedSnapshotRef = useRef<string | null>(null);
+  const syncInFlightRef = useRef(false);
+  const clipboardRef = useRef<TimelineItem[]>([]);
+  const syncPendingRef = useRef(false);
+  
+  // Latest editable state, so edits fired in quick succession build on each other
+  const editStateRef = useRef<EditState>({ name: projectName, items: timelineItems, tracks, settings, markers });
+  editStateRef.current = { name: projectName, items: timelineItems, tracks, settings, markers };
   
   // Fetch user preferences from Supabase
   const { data: userPrefsData } = useQuery({
@@ -69,6 +217,7 @@ const VideoEditor: React.FC = () => {
       const prefs = userPrefsData.preferences;
       if (prefs.defaultVolume !== undefined) setVolume(prefs.defaultVolume);
       if (prefs.timelineScale !== undefined) setTimelineScale(prefs.timelineScale);
+      if (prefs.keymap) setKeymapOverrides(prefs.keymap);
     }
   }, [userPrefsData]);
   
@@ -93,14 +242,197 @@ const VideoEditor: React.FC = () => {
     };
   }, []);
   
+  // Replace the editor state with a stored project, or with an unsaved one
+  // that gets an id on its first save
+  const hydrateProject = (id: string | null, document: ProjectDocument) => {
+    loadedProjectIdRef.current = id;
+    lastSavedSnapshotRef.current = JSON.stringify(document);
+    setProjectId(id);
+    setProjectName(document.name);
+    setTimelineItems(document.items);
+    setTracks(document.tracks);
+    setSettings(document.settings);
+    setMarkers(document.markers);
+    setDuration(document.duration);
+    setHistory(createHistory());
+    setSelectedIds([]);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    setInPoint(null);
+    setOutPoint(null);
+  };
+  
+  // Sync a project in the background and pick up newer remote changes
+  const syncInBackground = async (id: string) => {
+    if (syncInFlightRef.current) {
+      syncPendingRef.current = true;
+      return;
+    }
+    
+    syncInFlightRef.current = true;
+    const savedSnapshot = lastSavedSnapshotRef.current;
+    const result = await syncLocalProject(id);
+    syncInFlightRef.current = false;
+    
+    // Edits saved while the sync ran are newer than what it pulled
+    if (result.status === 'pulled' && id === loadedProjectIdRef.current && lastSavedSnapshotRef.current === savedSnapshot) {
+      hydrateProject(id, result.document);
+      if (result.conflict) {
+        toast.warning('Project updated from another device', {
+          description: 'Newer changes saved elsewhere replaced your local edits.',
+        });
+      }
+    }
+    
+    if (syncPendingRef.current) {
+      syncPendingRef.current = false;
+      syncInBackground(id);
+    }
+    
+    return result;
+  };
+  
+  // Effects below call the latest save and sync without re-running for them
+  const syncInBackgroundRef = useRef(syncInBackground);
+  syncInBackgroundRef.current = syncInBackground;
+  
+  // Load the project referenced by the route, preferring the local copy
   useEffect(() => {
-    if (JSON.stringify(timelineItems) !== JSON.stringify(history[historyIndex])) {
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push([...timelineItems]);
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+    // Without a project in the route, start a new one rather than carrying
+    // on under the previous project's id
+    if (!routeProjectId) {
+      hydrateProject(null, createProjectDocument({
+        name: 'Untitled Project',
+        duration: 600,
+        items: [],
+        tracks: DEFAULT_TRACKS,
+        settings: DEFAULT_PROJECT_SETTINGS,
+        markers: []
+      }));
+      setIsLoadingProject(false);
+      setLoadError(null);
+      return;
     }
-  }, [timelineItems]);
+    
+    // Saving a new project updates the route, which must not trigger a reload
+    if (routeProjectId === loadedProjectIdRef.current) return;
+    
+    let cancelled = false;
+    
+    const fetchProject = async () => {
+      setIsLoadingProject(true);
+      setLoadError(null);
+      
+      const localProject = await localProjectsDB.getProject(routeProjectId);
+      if (cancelled) return;
+      
+      if (localProject) {
+        hydrateProject(routeProjectId, localProject.document);
+        setIsLoadingProject(false);
+        syncInBackgroundRef.current(routeProjectId);
+        return;
+      }
+      
+      const result = await loadProject(routeProjectId);
+      if (cancelled) return;
+      
+      if (result.success && result.project && result.document) {
+        const { document } = result;
+        await localProjectsDB.putSyncedProject(
+          routeProjectId,
+          document,
+          result.project.updated_at || new Date().toISOString()
+        );
+        hydrateProject(routeProjectId, document);
+      } else {
+        setLoadError({
+          code: result.errorCode || 'unknown',
+          message: result.error || 'Unknown error loading project'
+        });
+      }
+      
+      setIsLoadingProject(false);
+    };
+    
+    fetchProject();
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [routeProjectId]);
+  
+  // Store the project locally, assigning it an id on first save
+  const saveLocally = async (document: ProjectDocument) => {
+    const id = projectId || crypto.randomUUID();
+    await localProjectsDB.saveProject(id, document);
+    lastSavedSnapshotRef.current = JSON.stringify(document);
+    
+    if (id !== projectId) {
+      loadedProjectIdRef.current = id;
+      setProjectId(id);
+      navigate(`/editor/${id}`, { replace: true });
+    }
+    
+    return id;
+  };
+  
+  const saveLocallyRef = useRef(saveLocally);
+  saveLocallyRef.current = saveLocally;
+  
+  // Autosave to IndexedDB shortly after every change
+  useEffect(() => {
+    if (isLoadingProject || loadError) return;
+    
+    // Don't create a project until there is something in it
+    if (!projectId && timelineItems.length === 0) return;
+    
+    const document = createProjectDocument({ name: projectName, duration, items: timelineItems, tracks, settings, markers });
+    if (JSON.stringify(document) === lastSavedSnapshotRef.current) return;
+    
+    const autosave = setTimeout(async () => {
+      try {
+        const id = await saveLocallyRef.current(document);
+        if (user) {
+          syncInBackgroundRef.current(id);
+        }
+      } catch (error) {
+        console.error('Error autosaving project:', error);
+      }
+    }, AUTOSAVE_DELAY);
+    
+    return () => clearTimeout(autosave);
+  }, [projectName, timelineItems, tracks, settings, markers, duration, projectId, user, isLoadingProject, loadError]);
+  
+  // Push offline edits once the user is signed in and online. The open
+  // project goes through the background sync so it can't race its autosave.
+  useEffect(() => {
+    if (!user) return;
+    
+    const syncAll = () => {
+      const openId = loadedProjectIdRef.current;
+      syncAllLocalProjects(openId ? [openId] : []);
+      if (openId) {
+        syncInBackgroundRef.current(openId);
+      }
+    };
+    
+    syncAll();
+    window.addEventListener('online', syncAll);
+    
+    return () => {
+      window.removeEventListener('online', syncAll);
+    };
+  }, [user]);
+  
+  // A drag or slider gesture ends on pointer up; later edits start a new step
+  useEffect(() => {
+    const handlePointerUp = () => setHistory(prev => sealHistory(prev));
+    window.addEventListener('pointerup', handlePointerUp);
+    
+    return () => {
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, []);
   
   useEffect(() => {
     const calculateTimelineDuration = () => {
@@ -116,30 +448,41 @@ const VideoEditor: React.FC = () => {
     setDuration(calculateTimelineDuration());
   }, [timelineItems]);
   
+  const lastMediaEndTime = useMemo(
+    () => timelineItems.length > 0 ? Math.max(...timelineItems.map(item => item.start + item.duration)) : 0,
+    [timelineItems]
+  );
+  
+  // Drive the playhead from the master clock, advancing a frame at a time
   useEffect(() => {
-    let playbackInterval: number;
-    
-    if (isPlaying) {
-      playbackInterval = window.setInterval(() => {
-        setCurrentTime(prevTime => {
-          const lastMediaEndTime = timelineItems.length > 0 ?
-            Math.max(...timelineItems.map(item => item.start + item.duration)) : 0;
-          
-          if (prevTime >= lastMediaEndTime) {
-            setIsPlaying(false);
-            return 0;
-          }
-          return prevTime + 0.1;
-        });
-      }, 100);
-    }
+    if (!isPlaying) return;
     
-    return () => {
-      if (playbackInterval) {
-        clearInterval(playbackInterval);
+    const clock = clockRef.current;
+    clock.start(currentTimeRef.current, playbackRate);
+    
+    let frameId: number;
+    const tick = () => {
+      const time = clock.getTime();
+      
+      // Stop at the end of the last clip, or at the start when playing backwards
+      if (time >= lastMediaEndTime || (playbackRate < 0 && time <= 0)) {
+        clock.stop();
+        clock.seek(0);
+        setIsPlaying(false);
+        setCurrentTime(0);
+        return;
       }
+      
+      setCurrentTime(snapToFrame(time, fps));
+      frameId = requestAnimationFrame(tick);
+    };
+    
+    frameId = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameId);
+      clock.stop();
     };
-  }, [isPlaying, timelineItems]);
+  }, [isPlaying, playbackRate, fps, lastMediaEndTime]);
   
   // Save user preferences when they change
   useEffect(() => {
@@ -160,33 +503,84 @@ const VideoEditor: React.FC = () => {
   }, [volume, timelineScale, user]);
   
   const handlePlayPause = () => {
+    setPlaybackRate(1);
     setIsPlaying(prev => !prev);
   };
   
+  // J/K/L shuttle: each further press in the same direction doubles the speed
+  const handleShuttle = (direction: -1 | 0 | 1) => {
+    if (direction === 0) {
+      setIsPlaying(false);
+      setPlaybackRate(1);
+      return;
+    }
+    
+    const speed = isPlaying && Math.sign(playbackRate) === direction
+      ? Math.min(Math.abs(playbackRate) * 2, MAX_SHUTTLE_SPEED)
+      : 1;
+    setPlaybackRate(direction * speed);
+    setIsPlaying(true);
+  };
+  
+  const handleStepPlayhead = (seconds: number) => {
+    setIsPlaying(false);
+    setCurrentTime(prev => snapToFrame(Math.max(0, Math.min(duration, prev + seconds)), fps));
+  };
+  
+  // Keep the in point before the out point, dropping whichever one is now on the wrong side
+  const handleSetInPoint = () => {
+    setInPoint(currentTime);
+    if (outPoint !== null && outPoint <= currentTime) setOutPoint(null);
+  };
+  
+  const handleSetOutPoint = () => {
+    setOutPoint(currentTime);
+    if (inPoint !== null && inPoint >= currentTime) setInPoint(null);
+  };
+  
   const handleSeek = (time: number) => {
-    setCurrentTime(time);
+    const frameTime = snapToFrame(Math.max(0, time), fps);
+    clockRef.current.seek(frameTime);
+    setCurrentTime(frameTime);
+  };
+  
+  // Jump to the nearest marker, or region end, on the ruler or on a clip
+  const handleSeekToMarker = (direction: -1 | 1) => {
+    const time = findAdjacentMarkerTime(getMarkerTimes(markers, timelineItems), currentTime, direction);
+    if (time === null) return;
+    setIsPlaying(false);
+    handleSeek(time);
   };
 
   const handleSave = async () => {
     setIsSaving(true);
     
     try {
-      const result = await saveProject(projectName, timelineItems, duration);
+      const id = await saveLocally(
+        createProjectDocument({ name: projectName, duration, items: timelineItems, tracks, settings, markers })
+      );
+      
+      if (!user) {
+        toast.info('Project saved locally', {
+          description: 'Sign in to save projects to your account.',
+        });
+        return;
+      }
       
-      if (result.success) {
+      const result = await syncInBackground(id);
+      
+      if (!result || result.status === 'pushed' || result.status === 'unchanged') {
         toast.success('Project saved', {
           description: `${projectName} has been saved to your projects.`,
         });
-      } else if (result.error) {
-        if (result.error.includes('not authenticated')) {
-          toast.info('Project saved locally', {
-            description: 'Sign in to save projects to your account.',
-          });
-        } else {
-          toast.error('Failed to save project', {
-            description: result.error,
-          });
-        }
+      } else if (result.status === 'offline') {
+        toast.info('Project saved locally', {
+          description: 'It will sync to your account when you are back online.',
+        });
+      } else if (result.status === 'error') {
+        toast.error('Failed to save project', {
+          description: result.error,
+        });
       }
     } catch (error) {
       toast.error('Error saving project', {
@@ -211,28 +605,292 @@ const VideoEditor: React.FC = () => {
     setIsExportModalOpen(true);
   };
 
+  const handleExportBundle = async () => {
+    const toastId = toast.loading('Packaging project bundle...');
+    
+    try {
+      const document = createProjectDocument({ name: projectName, duration, items: timelineItems, tracks, settings, markers });
+      const { blob, missing } = await exportProjectBundle(document);
+      
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `${projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}${BUNDLE_EXTENSION}`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      
+      if (missing.length > 0) {
+        toast.warning('Bundle exported with missing media', {
+          id: toastId,
+          description: `${missing.length} media file(s) could not be embedded and will still point to their original location.`,
+        });
+      } else {
+        toast.success('Project bundle exported', { id: toastId });
+      }
+    } catch (error) {
+      console.error('Error exporting bundle:', error);
+      toast.error('Failed to export bundle', {
+        id: toastId,
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  };
+  
+  const handleImportBundle = async (file: File) => {
+    const toastId = toast.loading('Importing project bundle...');
+    
+    try {
+      const document = await importProjectBundle(file);
+      const id = crypto.randomUUID();
+      
+      await localProjectsDB.saveProject(id, document);
+      hydrateProject(id, document);
+      navigate(`/editor/${id}`, { replace: true });
+      
+      if (user) {
+        syncInBackground(id);
+      }
+      
+      toast.success('Project imported', {
+        id: toastId,
+        description: `Opened "${document.name}" with ${document.items.length} item(s).`,
+      });
+    } catch (error) {
+      console.error('Error importing bundle:', error);
+      toast.error('Failed to import bundle', {
+        id: toastId,
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  };
+
+  const setEditState = (state: EditState) => {
+    editStateRef.current = state;
+    setProjectName(state.name);
+    setTimelineItems(state.items);
+    setTracks(state.tracks);
+    setSettings(state.settings);
+    setMarkers(state.markers);
+  };
+
+  // Apply an edit to the project and record it as an undoable step. Edits
+  // sharing a coalesce key during one gesture become a single step.
+  const applyEdit = (label: string, edit: (state: EditState) => Partial<EditState>, coalesceKey?: string) => {
+    const before = editStateRef.current;
+    const after = { ...before, ...edit(before) };
+    const command = createCommand(label, before, after, coalesceKey);
+    if (!command) return;
+    
+    setEditState(after);
+    setHistory(prev => pushCommand(prev, command));
+  };
+
   const handleRename = (name: string) => {
-    setProjectName(name);
+    applyEdit('Rename project', () => ({ name }));
     toast.success('Project renamed', {
       description: `Project is now named "${name}".`,
     });
   };
 
+  const handleSettingsChange = (next: ProjectSettings) => {
+    applyEdit('Change project settings', () => ({ settings: next }));
+  };
+
+  // Dragging a marker is one undo step
+  const handleMarkersChange = (next: TimelineMarker[], coalesceKey?: string) => {
+    applyEdit(describeMarkerChange(editStateRef.current.markers, next), () => ({ markers: next }), coalesceKey);
+  };
+
   const handleAddTimelineItem = (item: TimelineItem) => {
-    setTimelineItems(prev => [...prev, item]);
+    const trackId = resolveTrackId(item, tracks);
+    
+    if (!trackId) {
+      toast.error('No track available', {
+        description: `Add an unlocked ${item.type === 'audio' ? 'audio' : 'video'} track first.`,
+      });
+      return;
+    }
+    
+    // Ripple mode inserts at the item's position instead of overlaying it
+    const lockedTrackIds = getLockedTrackIds();
+    applyEdit('Add clip', ({ items }) => ({
+      items: rippleMode === 'off'
+        ? [...items, { ...item, trackId }]
+        : rippleInsert(items, { ...item, trackId }, rippleMode, lockedTrackIds)
+    }));
     toast.success('Media added', {
       description: `Added ${item.name} to the timeline.`,
     });
   };
 
+  // Text goes on the top video track that is free at the playhead, or on a
+  // new track above everything so it shows over the picture
+  const handleAddText = (preset: TextPreset) => {
+    const start = currentTime;
+    const end = start + DEFAULT_TEXT_DURATION;
+    const topTrack = tracks.find(track => track.kind === 'video');
+    const isTopTrackFree = topTrack && !topTrack.locked && !timelineItems.some(item =>
+      item.trackId === topTrack.id && item.start < end && item.start + item.duration > start
+    );
+    const textTrack = isTopTrackFree ? topTrack : { ...createTrack('video', tracks), name: 'Text' };
+    const item = createTextItem(preset, start, textTrack.id);
+    
+    applyEdit('Add text', ({ items, tracks: previousTracks }) => ({
+      items: [...items, item],
+      tracks: isTopTrackFree ? previousTracks : [textTrack, ...previousTracks]
+    }));
+    setSelectedIds([item.id]);
+    setActiveTab('inspector');
+  };
+
+  // Apply track edits, dropping the items of any track that was deleted
+  const handleTracksChange = (nextTracks: Track[]) => {
+    const remainingIds = new Set(nextTracks.map(track => track.id));
+    const label = describeTrackChange(tracks, nextTracks);
+    
+    applyEdit(label, ({ items, tracks: previousTracks }) => {
+      const removedIds = new Set(previousTracks.filter(track => !remainingIds.has(track.id)).map(track => track.id));
+      return {
+        tracks: nextTracks,
+        items: removedIds.size > 0 ? items.filter(item => !removedIds.has(item.trackId)) : items
+      };
+    }, label);
+  };
+
+  const getLockedTrackIds = () => new Set(tracks.filter(track => track.locked).map(track => track.id));
+
+  // Remove clips along with the clips linked to them; clips on locked tracks stay
+  const handleRemoveTimelineItems = (ids: string[]) => {
+    const lockedTrackIds = getLockedTrackIds();
+    const removeIds = getLinkedIds(timelineItems, ids).filter(id => {
+      const item = timelineItems.find(i => i.id === id);
+      return item && !lockedTrackIds.has(item.trackId);
+    });
+    if (removeIds.length === 0) return;
+    
+    applyEdit(removeIds.length === 1 ? 'Delete clip' : 'Delete clips', ({ items }) => ({
+      items: removeIds.reduce(
+        (remaining, id) => rippleDelete(remaining, id, rippleMode, lockedTrackIds),
+        items
+      )
+    }));
+    setSelectedIds(prev => prev.filter(id => !removeIds.includes(id)));
+  };
+
   const handleRemoveTimelineItem = (id: string) => {
-    setTimelineItems(prev => prev.filter(item => item.id !== id));
+    handleRemoveTimelineItems([id]);
+  };
+
+  // Apply a trim, shifting the clips after it when ripple editing. Linked
+  // clips get the same trim.
+  const handleRippleTrimItem = (updatedItem: TimelineItem) => {
+    const lockedTrackIds = getLockedTrackIds();
+    applyEdit('Ripple trim', ({ items: prev }) => {
+      const previous = prev.find(item => item.id === updatedItem.id);
+      if (!previous) return {};
+      
+      const partners = prev.filter(item =>
+        item.id !== updatedItem.id && item.linkGroupId && item.linkGroupId === updatedItem.linkGroupId
+      );
+      let next = rippleTrim(prev, updatedItem, rippleMode, lockedTrackIds);
+      applyLinkedTrim(partners, previous, updatedItem).forEach(partner => {
+        // With all tracks rippling the partner's track has already shifted
+        next = rippleMode === 'all'
+          ? next.map(item => item.id === partner.id ? partner : item)
+          : rippleTrim(next, partner, rippleMode, lockedTrackIds);
+      });
+      return { items: next };
+    }, `ripple-trim:${updatedItem.id}`);
+  };
+
+  // Replace clips, naming the step after what changed about the first of them
+  const handleUpdateTimelineItems = (updatedItems: TimelineItem[]) => {
+    if (updatedItems.length === 0) return;
+    
+    const updatedById = new Map(updatedItems.map(item => [item.id, item]));
+    const previous = editStateRef.current.items.find(item => item.id === updatedItems[0].id);
+    if (!previous) return;
+    
+    const label = describeItemChange(previous, updatedItems[0], updatedItems.length);
+    const ids = updatedItems.map(item => item.id).sort().join(',');
+    applyEdit(label, ({ items }) => ({
+      items: items.map(item => updatedById.get(item.id) ?? item)
+    }), `${label}:${ids}`);
+  };
+
+  const handleCopyItems = (ids: string[]) => {
+    const copied = timelineItems.filter(item => getLinkedIds(timelineItems, ids).includes(item.id));
+    if (copied.length === 0) return;
+    
+    clipboardRef.current = copied.map(item => ({ ...item }));
+    toast.success(copied.length === 1 ? 'Clip copied' : `${copied.length} clips copied`);
+  };
+
+  // Paste the copied clips at a time on their original tracks
+  const handlePasteItems = (time: number) => {
+    if (clipboardRef.current.length === 0) {
+      toast.info('Nothing to paste');
+      return;
+    }
+    
+    const lockedTrackIds = getLockedTrackIds();
+    const clipboard = clipboardRef.current
+      .map(item => {
+        const trackId = tracks.some(track => track.id === item.trackId) && !lockedTrackIds.has(item.trackId)
+          ? item.trackId
+          : resolveTrackId(item, tracks);
+        return trackId ? { ...item, trackId } : null;
+      })
+      .filter((item): item is TimelineItem => item !== null);
+    
+    const pasted = pasteItems(timelineItems, clipboard, time);
+    if (pasted.length === 0) {
+      toast.error('No unlocked track to paste onto');
+      return;
+    }
+    
+    applyEdit('Paste', ({ items }) => ({ items: [...items, ...pasted] }));
+    setSelectedIds(pasted.map(item => item.id));
+    toast.success(pasted.length === 1 ? 'Clip pasted' : `${pasted.length} clips pasted`);
+  };
+
+  const handleLinkSelection = () => {
+    applyEdit('Link clips', ({ items }) => ({ items: linkItems(items, selectedIds) }));
+    toast.success('Clips linked', {
+      description: 'Linked clips are selected, moved and trimmed together.',
+    });
+  };
+
+  const handleUnlinkSelection = () => {
+    applyEdit('Unlink clips', ({ items }) => ({ items: unlinkItems(items, selectedIds) }));
+    toast.success('Clips unlinked');
+  };
+
+  // Link an extracted audio clip to the video it came from
+  const handleLinkItems = (ids: string[]) => {
+    applyEdit('Link clips', ({ items }) => ({ items: linkItems(items, ids) }));
+  };
+
+  // Set the volume of every selected clip that has sound, at the playhead
+  // for clips whose volume is animated
+  const handleSelectionVolumeChange = (value: number) => {
+    const ids = new Set(selectedIds);
+    applyEdit('Change volume', ({ items }) => ({
+      items: items.map(item => ids.has(item.id) && hasSound(item) ? setPropertyValue(item, 'volume', currentTime, value) : item)
+    }), `volume:${selectedIds.join(',')}`);
+  };
+
+  const handleCloseGaps = (trackId: string) => {
+    applyEdit('Close gaps', ({ items }) => ({ items: closeTrackGaps(items, trackId) }));
+    toast.success('Gaps closed', {
+      description: `Closed the gaps on ${tracks.find(track => track.id === trackId)?.name ?? 'the track'}.`,
+    });
   };
 
   const handleUpdateTimelineItem = (updatedItem: TimelineItem) => {
-    setTimelineItems(prev => 
-      prev.map(item => item.id === updatedItem.id ? updatedItem : item)
-    );
+    handleUpdateTimelineItems([updatedItem]);
   };
 
   const handleVolumeChange = (value: number) => {
@@ -251,26 +909,55 @@ const VideoEditor: React.FC = () => {
     setTimelineScale(prev => Math.max(prev / 1.2, 20));
   };
   
+  // Restore the project to a point in the history
+  const handleJumpToHistory = (index: number) => {
+    const { history: nextHistory, state } = jumpToIndex(history, editStateRef.current, index);
+    setHistory(nextHistory);
+    setEditState(state);
+    setSelectedIds(prev => prev.filter(id => state.items.some(item => item.id === id)));
+  };
+  
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setTimelineItems([...history[historyIndex - 1]]);
-      toast.info('Undo successful');
+    if (history.index > 0) {
+      const { label } = history.commands[history.index - 1];
+      handleJumpToHistory(history.index - 1);
+      toast.info(`Undo: ${label}`);
     } else {
       toast.info('Nothing to undo');
     }
   };
   
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setTimelineItems([...history[historyIndex + 1]]);
-      toast.info('Redo successful');
+    if (history.index < history.commands.length) {
+      const { label } = history.commands[history.index];
+      handleJumpToHistory(history.index + 1);
+      toast.info(`Redo: ${label}`);
     } else {
       toast.info('Nothing to redo');
     }
   };
   
+  // Split the given clips, or every clip under the time, skipping locked tracks
+  const handleSplitItems = (time: number, itemIds?: string[]) => {
+    const lockedTrackIds = getLockedTrackIds();
+    const { items, splitCount } = splitItemsAt(editStateRef.current.items, time, item =>
+      !lockedTrackIds.has(item.trackId) && (!itemIds || itemIds.includes(item.id))
+    );
+    
+    if (splitCount === 0) {
+      toast.info(itemIds ? 'Move the playhead inside the clip to split it' : 'No clips under the playhead');
+      return;
+    }
+    
+    applyEdit(splitCount === 1 ? 'Split clip' : 'Split clips', () => ({ items }));
+    toast.success(splitCount === 1 ? 'Clip split' : `${splitCount} clips split`);
+  };
+  
+  // The most recently selected clip drives single-clip tools and the inspector
+  const selectedItems = timelineItems.filter(item => selectedIds.includes(item.id));
+  const selectedItem = timelineItems.find(item => item.id === selectedIds[selectedIds.length - 1]) || null;
+  const selectionHasSound = selectedItems.some(hasSound);
+  
   const handleTrimItem = () => {
     if (!selectedItem) {
       toast.info('Please select an item to trim');
@@ -278,26 +965,25 @@ const VideoEditor: React.FC = () => {
     }
     
     if (selectedItem.duration > 1) {
-      const updatedItem = {
-        ...selectedItem,
-        duration: selectedItem.duration - 1
-      };
-      
-      handleUpdateTimelineItem(updatedItem);
+      handleUpdateTimelineItem(setItemDuration(selectedItem, selectedItem.duration - 1));
       toast.success('Item trimmed by 1 second');
     } else {
       toast.info('Item is too short to trim further');
     }
   };
   
+  // The listeners below are registered once and read the latest render here
+  const timelineEventsRef = useRef({ handleAddTimelineItem, timelineItems });
+  timelineEventsRef.current = { handleAddTimelineItem, timelineItems };
+  
   useEffect(() => {
     const handleAddItem = (e: CustomEvent<TimelineItem>) => {
-      handleAddTimelineItem(e.detail);
+      timelineEventsRef.current.handleAddTimelineItem(e.detail);
     };
     
     const handleGetTimelineItems = (e: CustomEvent<{callback: (items: TimelineItem[]) => void}>) => {
       if (e.detail && e.detail.callback) {
-        e.detail.callback([...timelineItems]);
+        e.detail.callback([...timelineEventsRef.current.timelineItems]);
       }
     };
     
@@ -308,16 +994,18 @@ const VideoEditor: React.FC = () => {
       window.removeEventListener('add-timeline-item', handleAddItem as EventListener);
       document.removeEventListener('get-timeline-items', handleGetTimelineItems as EventListener);
     };
-  }, [timelineItems]);
+  }, []);
+  
+  const volumeEventsRef = useRef({ handleUpdateTimelineItem, timelineItems });
+  volumeEventsRef.current = { handleUpdateTimelineItem, timelineItems };
   
   useEffect(() => {
     const handleVideoVolumeChange = (e: CustomEvent<{id: string, volume: number}>) => {
-      if (e.detail && e.detail.id) {
-        handleUpdateTimelineItem({
-          ...timelineItems.find(item => item.id === e.detail.id)!,
-          volume: e.detail.volume
-        });
-      }
+      // The clip may have been removed since the event was sent
+      const { handleUpdateTimelineItem, timelineItems } = volumeEventsRef.current;
+      const item = e.detail?.id && timelineItems.find(other => other.id === e.detail.id);
+      if (!item) return;
+      handleUpdateTimelineItem(setPropertyValue(item, 'volume', currentTimeRef.current, e.detail.volume));
     };
     
     window.addEventListener('video-volume-change', handleVideoVolumeChange as EventListener);
@@ -325,11 +1013,96 @@ const VideoEditor: React.FC = () => {
     return () => {
       window.removeEventListener('video-volume-change', handleVideoVolumeChange as EventListener);
     };
-  }, [timelineItems]);
+  }, []);
+  
+  const selectedVideo = selectedItem?.type === 'video' ? selectedItem : null;
+  
+  const handleKeymapChange = async (overrides: Keymap) => {
+    setKeymapOverrides(overrides);
+    if (!user) return;
+    
+    const result = await saveUserPreferences({ keymap: overrides });
+    if (!result.success) {
+      toast.error('Failed to save shortcuts', {
+        description: result.error,
+      });
+    }
+  };
   
-  const selectedVideo = selectedItem?.type === 'video' ? selectedItem : 
-    timelineItems.find(item => item.type === 'video' && item.id === selectedItem?.id) || null;
+  const keymap = useMemo(() => resolveKeymap(keymapOverrides), [keymapOverrides]);
   
+  // Editor-wide shortcuts; the timeline registers the clip editing ones
+  useShortcuts(keymap, {
+    'play-pause': handlePlayPause,
+    'shuttle-reverse': () => handleShuttle(-1),
+    'shuttle-stop': () => handleShuttle(0),
+    'shuttle-forward': () => handleShuttle(1),
+    'set-in': handleSetInPoint,
+    'set-out': handleSetOutPoint,
+    'clear-in-out': () => {
+      setInPoint(null);
+      setOutPoint(null);
+    },
+    'frame-back': e => handleStepPlayhead(e.shiftKey ? -1 : -1 / fps),
+    'frame-forward': e => handleStepPlayhead(e.shiftKey ? 1 : 1 / fps),
+    'go-to-start': () => handleSeek(0),
+    'go-to-end': () => handleSeek(Math.max(0, ...timelineItems.map(item => item.start + item.duration))),
+    'previous-marker': () => handleSeekToMarker(-1),
+    'next-marker': () => handleSeekToMarker(1),
+    'undo': handleUndo,
+    'redo': handleRedo,
+    'zoom-in': handleTimelineZoomIn,
+    'zoom-out': handleTimelineZoomOut,
+    'show-shortcuts': () => setIsShortcutsOpen(true)
+  }, !isShortcutsOpen && !isExportModalOpen && !isSettingsOpen);
+
+  // What the preview and export actually play, after hide/mute/solo
+  const renderableItems = useMemo(
+    () => getRenderableItems(timelineItems, tracks),
+    [timelineItems, tracks]
+  );
+
+  if (isLoadingProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-[#000000] text-[#EEEEEE]">
+        <Loader2 className="h-8 w-8 animate-spin text-[#D7F266]" />
+        <p className="mt-4 text-sm text-white/70">Loading project...</p>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    const title = loadError.code === 'not_authenticated' ? 'Sign in to open this project' :
+      loadError.code === 'not_found' ? 'Project not found' :
+      loadError.code === 'forbidden' ? 'You don\'t have access to this project' :
+      'Could not load project';
+
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-[#000000] text-[#EEEEEE]">
+        <div className="bg-[#242423] p-8 rounded-lg border border-white/10 max-w-md text-center">
+          <AlertTriangle className="h-10 w-10 mx-auto mb-4 text-[#D7F266]" />
+          <h2 className="text-xl font-bold mb-2">{title}</h2>
+          <p className="text-white/70 mb-6">
+            {loadError.code === 'not_found' || loadError.code === 'forbidden'
+              ? 'It may have been deleted, or it was created with a different account.'
+              : loadError.message}
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" className="border-white/20" onClick={() => navigate('/projects')}>
+              My Projects
+            </Button>
+            <Button
+              className="bg-[#D7F266] hover:bg-[#D7F266]/90 text-[#151514]"
+              onClick={() => navigate('/editor')}
+            >
+              New Project
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full bg-[#000000] text-[#EEEEEE] overflow-hidden">
       <Header 
@@ -337,6 +1110,9 @@ const VideoEditor: React.FC = () => {
         onRename={handleRename}
         onSave={handleSave}
         onExport={handleExport}
+        onExportBundle={handleExportBundle}
+        onImportBundle={handleImportBundle}
+        onOpenSettings={() => setIsSettingsOpen(true)}
         isSaving={isSaving}
       />
       
@@ -346,7 +1122,12 @@ const VideoEditor: React.FC = () => {
             activeTab={activeTab}
             setActiveTab={setActiveTab}
             onAddToTimeline={handleAddTimelineItem}
+            onAddText={handleAddText}
             selectedVideo={selectedVideo}
+            selectedItem={selectedItem}
+            currentTime={currentTime}
+            onUpdateItem={handleUpdateTimelineItem}
+            onLinkItems={handleLinkItems}
           />
         </div>
         
@@ -356,13 +1137,17 @@ const VideoEditor: React.FC = () => {
               <Preview 
                 currentTime={currentTime} 
                 isPlaying={isPlaying} 
-                timelineItems={timelineItems}
+                timelineItems={renderableItems}
+                tracks={tracks}
                 volume={volume}
                 muted={muted}
                 duration={duration}
                 onToggleMute={handleToggleMute}
                 onVolumeChange={handleVolumeChange}
                 onPlayPause={handlePlayPause}
+                playbackRate={playbackRate}
+                clock={clockRef.current}
+                settings={settings}
               />
             </ResizablePanel>
             
@@ -374,18 +1159,26 @@ const VideoEditor: React.FC = () => {
                   <button 
                     className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mx-1"
                     onClick={handleUndo}
-                    title="Undo"
+                    title={history.index > 0 ? `Undo ${history.commands[history.index - 1].label}` : 'Undo'}
                   >
                     <ChevronLeft size={14} />
                   </button>
                   <button 
                     className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mr-1"
                     onClick={handleRedo}
-                    title="Redo"
+                    title={history.index < history.commands.length ? `Redo ${history.commands[history.index].label}` : 'Redo'}
                   >
                     <ChevronRight size={14} />
                   </button>
+                  <HistoryPanel history={history} onJump={handleJumpToHistory} />
                   <div className="h-4 w-px bg-white/20 mx-1"></div>
+                  <button 
+                    className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mx-1"
+                    onClick={() => handleSplitItems(currentTime, selectedItem ? [selectedItem.id] : undefined)}
+                    title="Split at playhead (S)"
+                  >
+                    <Scissors size={14} />
+                  </button>
                   <button 
                     className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mx-1"
                     onClick={handleTrimItem}
@@ -393,9 +1186,50 @@ const VideoEditor: React.FC = () => {
                   >
                     <ZoomIn size={14} />
                   </button>
+                  
+                  {selectedItems.length > 1 && (
+                    <>
+                      <div className="h-4 w-px bg-white/20 mx-1"></div>
+                      <span className="text-xs text-[#EEEEEE]/80 mx-1">{selectedItems.length} selected</span>
+                      <button 
+                        className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mx-1"
+                        onClick={handleLinkSelection}
+                        title="Link selected clips"
+                      >
+                        <Link2 size={14} />
+                      </button>
+                    </>
+                  )}
+                  {selectedItems.some(item => item.linkGroupId) && (
+                    <button 
+                      className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mx-1"
+                      onClick={handleUnlinkSelection}
+                      title="Unlink selected clips"
+                    >
+                      <Unlink size={14} />
+                    </button>
+                  )}
+                  {selectedItems.length > 1 && selectionHasSound && (
+                    <div className="flex items-center w-28 mx-2" title="Volume of selected clips">
+                      <Slider
+                        value={[getPropertyValue(selectedItems.find(hasSound), 'volume', currentTime)]}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        onValueChange={([value]) => handleSelectionVolumeChange(value)}
+                      />
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex items-center">
+                  <button 
+                    className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors mr-2"
+                    onClick={() => setIsShortcutsOpen(true)}
+                    title="Keyboard shortcuts (?)"
+                  >
+                    <Keyboard size={14} />
+                  </button>
                   <span className="text-xs font-semibold text-[#EEEEEE]/80 mr-2">Timeline Zoom:</span>
                   <button 
                     className="p-1 text-[#EEEEEE]/80 hover:text-[#C9FF00] transition-colors"
@@ -418,23 +1252,64 @@ const VideoEditor: React.FC = () => {
                 onPlayPause={handlePlayPause}
                 onSeek={handleSeek}
                 items={timelineItems}
+                tracks={tracks}
+                onTracksChange={handleTracksChange}
                 onRemoveItem={handleRemoveTimelineItem}
+                onRemoveItems={handleRemoveTimelineItems}
                 onUpdateItem={handleUpdateTimelineItem}
+                onUpdateItems={handleUpdateTimelineItems}
+                onCopyItems={handleCopyItems}
+                onPasteItems={handlePasteItems}
+                onSplitItems={handleSplitItems}
+                rippleMode={rippleMode}
+                onRippleModeChange={setRippleMode}
+                onRippleTrimItem={handleRippleTrimItem}
+                onCloseGaps={handleCloseGaps}
                 scale={timelineScale}
-                onSelectItem={setSelectedItem}
-                selectedItem={selectedItem}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                inPoint={inPoint}
+                outPoint={outPoint}
+                onInPointChange={setInPoint}
+                onOutPointChange={setOutPoint}
+                markers={markers}
+                onMarkersChange={handleMarkersChange}
+                keymap={keymap}
+                fps={fps}
+                shortcutsEnabled={!isShortcutsOpen && !isExportModalOpen && !isSettingsOpen}
               />
             </ResizablePanel>
           </ResizablePanelGroup>
         </div>
       </div>
       
+      <ShortcutsDialog
+        open={isShortcutsOpen}
+        onOpenChange={setIsShortcutsOpen}
+        keymap={keymap}
+        overrides={keymapOverrides}
+        onKeymapChange={handleKeymapChange}
+      />
+      
+      <ProjectSettingsDialog
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        settings={settings}
+        onSettingsChange={handleSettingsChange}
+      />
+      
       {/* Export Service Modal */}
       <ExportService 
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
-        timelineItems={timelineItems}
+        timelineItems={renderableItems}
+        tracks={tracks}
         projectName={projectName}
+        settings={settings}
+        markers={markers}
+        inPoint={inPoint}
+        outPoint={outPoint}
+        selectedIds={selectedIds}
       />
     </div>
   );
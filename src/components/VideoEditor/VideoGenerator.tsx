@@ -6,7 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Loader2, Video, Settings, Info } from 'lucide-react';
 import { toast } from 'sonner';
 import { TimelineItem } from './VideoEditor';
-import { generateVideo, generatePikaVideo } from '@/lib/falai';
+import { generateVideo, generatePikaVideo, PikaAspectRatio } from '@/lib/falai';
 import { generatedMediaDB } from '@/lib/db';
 import {
   Select,
@@ -23,7 +23,7 @@ import {
 } from "@/components/ui/tooltip";
 
 // Pika v2.2 supports more aspect ratios
-type AspectRatioType = '16:9' | '9:16' | '1:1' | '4:5' | '5:4' | '3:2' | '2:3';
+type AspectRatioType = PikaAspectRatio;
 type ResolutionType = '720p' | '1080p';
 type VideoModelType = 'wan-2.1' | 'pika-v2.2';
 
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react"
+import { ExportJob, getExportJobs, subscribeToExportJobs } from "@/lib/exportJobs"
+
+/**
+ * The export queue, kept up to date as jobs progress
+ */
+export function useExportJobs(): ExportJob[] {
+  const [jobs, setJobs] = useState(getExportJobs)
+
+  useEffect(() => {
+    // Catch anything that changed between render and subscribing
+    setJobs(getExportJobs())
+    return subscribeToExportJobs(setJobs)
+  }, [])
+
+  return jobs
+}
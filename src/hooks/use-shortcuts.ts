@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react"
+import { isTypingTarget, matchShortcut, ResolvedKeymap, ShortcutId } from "@/lib/shortcuts"
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, (e: KeyboardEvent) => void>>
+
+/**
+ * Run handlers when their shortcuts are pressed anywhere outside a text field.
+ * Handlers are read at key time, so they may close over the latest render.
+ */
+export function useShortcuts(keymap: ResolvedKeymap, handlers: ShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return
+
+      const candidates = Object.keys(handlersRef.current) as ShortcutId[]
+      const id = matchShortcut(e, keymap, candidates)
+      if (!id) return
+
+      e.preventDefault()
+      handlersRef.current[id]?.(e)
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [keymap, enabled])
+}
@@ -38,7 +38,11 @@ export type Database = {
           created_at: string | null
           duration: number
           id: string
+          markers: Json | null
           name: string
+          schema_version: number
+          settings: Json | null
+          tracks: Json | null
           updated_at: string | null
           user_id: string
         }
@@ -46,7 +50,11 @@ export type Database = {
           created_at?: string | null
           duration?: number
           id?: string
+          markers?: Json | null
           name?: string
+          schema_version?: number
+          settings?: Json | null
+          tracks?: Json | null
           updated_at?: string | null
           user_id: string
         }
@@ -54,7 +62,11 @@ export type Database = {
           created_at?: string | null
           duration?: number
           id?: string
+          markers?: Json | null
           name?: string
+          schema_version?: number
+          settings?: Json | null
+          tracks?: Json | null
           updated_at?: string | null
           user_id?: string
         }
@@ -62,47 +74,65 @@ export type Database = {
       }
       timeline_items: {
         Row: {
+          client_id: string | null
           color: string | null
           created_at: string | null
           duration: number
           id: string
           item_type: string
+          muted: boolean | null
           name: string
           project_id: string
+          properties: Json | null
+          schema_version: number
           src: string | null
           start: number
           thumbnail: string | null
           track_id: string
+          trim_end: number | null
+          trim_start: number | null
           updated_at: string | null
           volume: number | null
         }
         Insert: {
+          client_id?: string | null
           color?: string | null
           created_at?: string | null
           duration?: number
           id?: string
           item_type: string
+          muted?: boolean | null
           name: string
           project_id: string
+          properties?: Json | null
+          schema_version?: number
           src?: string | null
           start?: number
           thumbnail?: string | null
           track_id: string
+          trim_end?: number | null
+          trim_start?: number | null
           updated_at?: string | null
           volume?: number | null
         }
         Update: {
+          client_id?: string | null
           color?: string | null
           created_at?: string | null
           duration?: number
           id?: string
           item_type?: string
+          muted?: boolean | null
           name?: string
           project_id?: string
+          properties?: Json | null
+          schema_version?: number
           src?: string | null
           start?: number
           thumbnail?: string | null
           track_id?: string
+          trim_end?: number | null
+          trim_start?: number | null
           updated_at?: string | null
           volume?: number | null
         }
@@ -120,6 +150,7 @@ export type Database = {
         Row: {
           created_at: string | null
           default_volume: number | null
+          keymap: Json | null
           theme: string | null
           timeline_scale: number | null
           updated_at: string | null
@@ -128,6 +159,7 @@ export type Database = {
         Insert: {
           created_at?: string | null
           default_volume?: number | null
+          keymap?: Json | null
           theme?: string | null
           timeline_scale?: number | null
           updated_at?: string | null
@@ -136,6 +168,7 @@ export type Database = {
         Update: {
           created_at?: string | null
           default_volume?: number | null
+          keymap?: Json | null
           theme?: string | null
           timeline_scale?: number | null
           updated_at?: string | null
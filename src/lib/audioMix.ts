@@ -0,0 +1,140 @@
+import { TimelineItem } from '@/components/VideoEditor/VideoEditor';
+import { getTransitionPairs } from './transitions';
+import { getKeyframes, isAnimated, keyframeExpression, sourceTimeExpression } from './keyframes';
+import { getSourceSpan } from './timelineEdits';
+
+/**
+ * Audio mixing for the ffmpeg export, matching what the preview plays.
+ *
+ * Every audible item (audio clips and the sound of video clips) is trimmed
+ * the same way as on the timeline, delayed to its start time, scaled by its
+ * volume (following its keyframes if animated) and faded in and out, then
+ * mixed over silence that lasts the whole timeline so gaps stay quiet and the
+ * mix is exactly as long as the video. Clips joined by a transition crossfade
+ * into each other.
+ */
+
+/**
+ * An item with sound and the index of the ffmpeg input holding it
+ */
+export interface AudioMixInput {
+  item: TimelineItem;
+  inputIndex: number;
+}
+
+/**
+ * Whether an item can make any sound at all
+ */
+export function hasSound(item: TimelineItem): boolean {
+  return item.type === 'audio' || item.type === 'video';
+}
+
+/**
+ * How loud an item plays in the mix, 0 when muted. Animated volume is
+ * reported as 1; `volumeFilter` follows the curve.
+ */
+export function getItemGain(item: TimelineItem): number {
+  if (item.muted) return 0;
+  return isAnimated(item, 'volume') ? 1 : Math.max(0, item.volume ?? 1);
+}
+
+/**
+ * An item's fade lengths, shortened so they fit in the clip together
+ */
+export function getClipFades(item: TimelineItem): { fadeIn: number; fadeOut: number } {
+  const fadeIn = Math.min(item.duration, Math.max(0, item.fadeIn ?? 0));
+  const fadeOut = Math.min(item.duration - fadeIn, Math.max(0, item.fadeOut ?? 0));
+  return { fadeIn, fadeOut };
+}
+
+/**
+ * How far an item's fades bring its sound down at a timeline time, 0-1.
+ * Fades are linear, as ffmpeg's afade is by default.
+ */
+export function getFadeGain(item: TimelineItem, time: number): number {
+  const { fadeIn, fadeOut } = getClipFades(item);
+  const elapsed = time - item.start;
+  const remaining = item.start + item.duration - time;
+  let gain = 1;
+  if (fadeIn > 0 && elapsed < fadeIn) gain = Math.min(gain, Math.max(0, elapsed / fadeIn));
+  if (fadeOut > 0 && remaining < fadeOut) gain = Math.min(gain, Math.max(0, remaining / fadeOut));
+  return gain;
+}
+
+// ffmpeg fades for a clip whose timestamps start from zero
+const fadeFilters = (item: TimelineItem) => {
+  const { fadeIn, fadeOut } = getClipFades(item);
+  return [
+    fadeIn > 0 ? `,afade=t=in:st=0:d=${fadeIn.toFixed(3)}` : '',
+    fadeOut > 0 ? `,afade=t=out:st=${(item.duration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}` : ''
+  ].join('');
+};
+
+// ffmpeg volume for a clip whose timestamps start from zero
+const volumeFilter = (item: TimelineItem) => {
+  if (!isAnimated(item, 'volume')) return `volume=${getItemGain(item).toFixed(3)}`;
+  const curve = keyframeExpression(getKeyframes(item, 'volume'), sourceTimeExpression(item, 't'));
+  return `volume='max(0,${curve})':eval=frame`;
+};
+
+/**
+ * Build an ffmpeg filter graph that mixes the inputs into one stereo track
+ * @returns The filter graph and the label of its audio output
+ */
+export function buildAudioMixFilterGraph(
+  inputs: AudioMixInput[],
+  { sampleRate, duration }: { sampleRate: number; duration: number }
+): { filter: string; output: string } {
+  const format = `aresample=${sampleRate},aformat=sample_fmts=fltp:channel_layouts=stereo`;
+  const filters = [`anullsrc=r=${sampleRate}:cl=stereo,atrim=duration=${duration.toFixed(3)}[silence]`];
+  const labels = ['[silence]'];
+
+  const audible = inputs.filter(({ item }) => getItemGain(item) > 0);
+  const pairs = getTransitionPairs(audible.map(({ item }) => item));
+  const inputsById = new Map(audible.map(input => [input.item.id, input]));
+
+  // A clip trimmed and levelled, its timestamps starting from zero
+  const prepareSound = ({ item, inputIndex }: AudioMixInput) => {
+    const span = getSourceSpan(item);
+    return `[${inputIndex}:a]atrim=start=${span.start.toFixed(3)}:end=${span.end.toFixed(3)},asetpts=PTS-STARTPTS,` +
+      `${format},${volumeFilter(item)}${fadeFilters(item)}`;
+  };
+
+  audible.forEach(({ item }, index) => {
+    // Clips after a transition are mixed with the clip before them
+    if (pairs.some(pair => pair.to.id === item.id)) return;
+
+    const delay = Math.round(item.start * 1000);
+    let sound = prepareSound(inputsById.get(item.id));
+
+    // Clips joined by transitions crossfade, each padded with silence over
+    // the half of the transition on the far side of the cut, so the joined
+    // sound keeps its place on the timeline
+    let previous = item;
+    let step = 0;
+    for (let pair = pairs.find(p => p.from.id === item.id); pair; pair = pairs.find(p => p.from.id === previous.id)) {
+      const half = pair.transition.duration / 2;
+      const fromLabel = `fadeout${index}_${step}`;
+      const toLabel = `fadein${index}_${step++}`;
+      filters.push(`${sound},apad=pad_dur=${half.toFixed(3)}[${fromLabel}]`);
+      filters.push(`${prepareSound(inputsById.get(pair.to.id))},adelay=delays=${Math.round(half * 1000)}:all=1[${toLabel}]`);
+      sound = `[${fromLabel}][${toLabel}]acrossfade=d=${pair.transition.duration.toFixed(3)}:c1=tri:c2=tri`;
+      previous = pair.to;
+    }
+
+    filters.push(`${sound},adelay=delays=${delay}:all=1[sound${index}]`);
+    labels.push(`[sound${index}]`);
+  });
+
+  // The silence sets the length; normalize=0 keeps every clip at its own volume
+  filters.push(`${labels.join('')}amix=inputs=${labels.length}:duration=first:dropout_transition=0:normalize=0[aout]`);
+  return { filter: filters.join(';'), output: 'aout' };
+}
+
+/**
+ * A filter bringing a mix to a target integrated loudness in LUFS, with true
+ * peaks kept below -1.5 dBTP. loudnorm works at 192kHz, so it is resampled back.
+ */
+export function loudnessFilter(target: number, sampleRate: number): string {
+  return `loudnorm=I=${target}:TP=-1.5:LRA=11,aresample=${sampleRate}`;
+}
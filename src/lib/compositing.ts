@@ -0,0 +1,386 @@
+import { ClipFit, ClipReframe, ClipTransform, KeyframeProperty, TimelineItem, Track } from '@/components/VideoEditor/VideoEditor';
+import { animateTransform, getKeyframes, isAnimated, isTransformAnimated, keyframeExpression, sourceTimeExpression } from './keyframes';
+import { getTransitionOverhang, getTransitionPairs, getXfadeTransition, TransitionPair } from './transitions';
+import { getSourceSpan } from './timelineEdits';
+
+/**
+ * Layer compositing shared by the canvas preview and the ffmpeg export.
+ *
+ * Visual items (video, image and text) on different tracks are stacked: tracks
+ * higher up the timeline are drawn on top of the ones below them. Each clip
+ * is cropped, sized to the frame by its fit mode (inside it, covering it, or
+ * stretched to it), then scaled, rotated, faded and moved by its transform.
+ * Positions are fractions of the frame size measured from the centre, so a
+ * transform looks the same at any resolution. Animated transforms follow their
+ * keyframes, evaluated per frame by ffmpeg.
+ *
+ * When reframing for another aspect ratio (social exports), each clip instead
+ * shows a window of the frame's shape, panned and zoomed by its reframe
+ * settings, that covers the whole frame.
+ */
+
+export const DEFAULT_TRANSFORM: ClipTransform = {
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+  crop: { top: 0, right: 0, bottom: 0, left: 0 }
+};
+
+// Centre crop, as large as the clip allows
+export const DEFAULT_REFRAME: ClipReframe = { x: 0, y: 0, zoom: 1 };
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface LayerGeometry {
+  // Source rectangle after cropping
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  // Centre and size of the drawn layer in frame pixels, before rotation
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  rotation: number; // radians
+  opacity: number;
+}
+
+/**
+ * The transform of an item with defaults filled in, and with its keyframes
+ * applied when given a timeline time
+ */
+export function getClipTransform(item: TimelineItem, time?: number): ClipTransform {
+  const transform = item.transform;
+  const filled = {
+    ...DEFAULT_TRANSFORM,
+    ...transform,
+    crop: { ...DEFAULT_TRANSFORM.crop, ...transform?.crop }
+  };
+  return time === undefined ? filled : animateTransform(item, filled, time);
+}
+
+/**
+ * The reframe window of an item with defaults filled in
+ */
+export function getClipReframe(item: TimelineItem): ClipReframe {
+  return { ...DEFAULT_REFRAME, ...item.reframe };
+}
+
+/**
+ * Whether an item draws pictures in the preview and export
+ */
+export function isVisualItem(item: TimelineItem): boolean {
+  return item.type === 'video' || item.type === 'image' || item.type === 'text';
+}
+
+/**
+ * Visual items showing at a given time, ordered bottom layer first. Clips in
+ * a transition show a little before their start or after their end.
+ */
+export function getVisualLayers(items: TimelineItem[], tracks: Track[], time?: number): TimelineItem[] {
+  const trackIndex = new Map(tracks.map((track, index) => [track.id, index]));
+  const visualItems = items.filter(isVisualItem);
+  const pairs = time === undefined ? [] : getTransitionPairs(visualItems);
+
+  return visualItems
+    .filter(item => {
+      if (time === undefined) return true;
+      const { before, after } = getTransitionOverhang(item, pairs);
+      return time >= item.start - before && time < item.start + item.duration + after;
+    })
+    .sort((a, b) =>
+      (trackIndex.get(b.trackId) ?? 0) - (trackIndex.get(a.trackId) ?? 0) ||
+      a.start - b.start
+    );
+}
+
+/**
+ * Work out where a source of the given size lands in the frame
+ */
+export function getLayerGeometry(
+  source: FrameSize,
+  frame: FrameSize,
+  transform: ClipTransform,
+  fit: ClipFit = 'fit',
+  reframe?: ClipReframe
+): LayerGeometry {
+  const { crop } = transform;
+  let sx = source.width * crop.left;
+  let sy = source.height * crop.top;
+  let sw = source.width * Math.max(0.01, 1 - crop.left - crop.right);
+  let sh = source.height * Math.max(0.01, 1 - crop.top - crop.bottom);
+
+  if (reframe) {
+    // A window of the frame's shape, which then fills the frame exactly
+    const aspect = frame.width / frame.height;
+    const windowWidth = Math.min(sw, sh * aspect) / Math.max(1, reframe.zoom);
+    const windowHeight = windowWidth / aspect;
+    sx += (sw - windowWidth) * (reframe.x + 1) / 2;
+    sy += (sh - windowHeight) * (reframe.y + 1) / 2;
+    sw = windowWidth;
+    sh = windowHeight;
+  }
+
+  const mode = reframe ? 'stretch' : fit;
+  const fitScale = mode === 'fill'
+    ? Math.max(frame.width / sw, frame.height / sh)
+    : Math.min(frame.width / sw, frame.height / sh);
+  const baseWidth = mode === 'stretch' ? frame.width : sw * fitScale;
+  const baseHeight = mode === 'stretch' ? frame.height : sh * fitScale;
+
+  return {
+    sx,
+    sy,
+    sw,
+    sh,
+    cx: frame.width / 2 + transform.x * frame.width,
+    cy: frame.height / 2 + transform.y * frame.height,
+    width: baseWidth * transform.scale,
+    height: baseHeight * transform.scale,
+    rotation: (transform.rotation * Math.PI) / 180,
+    opacity: transform.opacity
+  };
+}
+
+/**
+ * Draw one layer onto a canvas the size of the frame
+ */
+export function drawLayer(
+  ctx: CanvasRenderingContext2D,
+  source: HTMLVideoElement | HTMLImageElement,
+  sourceSize: FrameSize,
+  transform: ClipTransform,
+  fit: ClipFit = 'fit',
+  reframe?: ClipReframe
+): void {
+  if (sourceSize.width === 0 || sourceSize.height === 0 || transform.opacity <= 0) return;
+
+  const geometry = getLayerGeometry(sourceSize, { width: ctx.canvas.width, height: ctx.canvas.height }, transform, fit, reframe);
+
+  ctx.save();
+  ctx.globalAlpha *= Math.min(1, geometry.opacity);
+  ctx.translate(geometry.cx, geometry.cy);
+  ctx.rotate(geometry.rotation);
+  ctx.drawImage(
+    source,
+    geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+    -geometry.width / 2, -geometry.height / 2, geometry.width, geometry.height
+  );
+  ctx.restore();
+}
+
+/**
+ * A visual item and the index of its ffmpeg input
+ */
+export interface CompositeInput {
+  item: TimelineItem;
+  inputIndex: number;
+}
+
+// ffmpeg scale options for each fit mode
+const FIT_SCALE_OPTIONS: Record<ClipFit, string> = {
+  fit: ':force_original_aspect_ratio=decrease:force_divisible_by=2',
+  fill: ':force_original_aspect_ratio=increase:force_divisible_by=2',
+  stretch: ''
+};
+
+// ffmpeg crop to an item's reframe window, for a frame of the given aspect ratio
+const reframeCropFilter = (reframe: ClipReframe, aspect: number) => {
+  const zoom = Math.max(1, reframe.zoom).toFixed(4);
+  return [
+    `crop=w='min(iw,ih*${aspect.toFixed(6)})/${zoom}'`,
+    `h='min(iw/${aspect.toFixed(6)},ih)/${zoom}'`,
+    `x='(iw-ow)*${((reframe.x + 1) / 2).toFixed(4)}'`,
+    `y='(ih-oh)*${((reframe.y + 1) / 2).toFixed(4)}'`
+  ].join(':');
+};
+
+type CompositeFrame = FrameSize & { fps: number; backgroundColor?: string; reframe?: boolean };
+
+/**
+ * Filters that turn an input into a layer with timestamps from zero, and
+ * where to overlay it. `clipStart` is when the clip's first frame shows on
+ * the clock of the stream it is overlaid on. Text arrives already drawn on a
+ * transparent frame: in place, or centred and untransformed when its
+ * transform is animated, to be placed like any other layer.
+ */
+function prepareLayer({ item, inputIndex }: CompositeInput, frame: CompositeFrame, clipStart: number): {
+  filter: string;
+  position: { x: string; y: string };
+} {
+  const isText = item.type === 'text';
+  if (isText && !isTransformAnimated(item)) {
+    return { filter: `[${inputIndex}:v]format=rgba,setpts=PTS-STARTPTS`, position: { x: '0', y: '0' } };
+  }
+
+  const transform = getClipTransform(item);
+  const { crop } = transform;
+  const angle = ((transform.rotation * Math.PI) / 180).toFixed(5);
+
+  // A property's value for the frame at `time`, counted from the clip's first frame
+  const animates = (property: KeyframeProperty) => isAnimated(item, property);
+  const curve = (property: KeyframeProperty, time: string) =>
+    `(${keyframeExpression(getKeyframes(item, property), sourceTimeExpression(item, time))})`;
+  const scale = animates('scale') ? 1 : transform.scale;
+
+  let opacity: string | null = null;
+  if (animates('opacity')) {
+    opacity = `geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*clip(${curve('opacity', 'T')},0,1)'`;
+  } else if (transform.opacity < 1) {
+    opacity = `colorchannelmixer=aa=${transform.opacity.toFixed(3)}`;
+  }
+
+  // An animated rotation turns within a square big enough for any angle
+  let rotation: string | null = null;
+  if (animates('rotation')) {
+    rotation = `rotate=a='${curve('rotation', 't')}*PI/180':c=none:ow='hypot(iw,ih)':oh=ow`;
+  } else if (transform.rotation !== 0) {
+    rotation = `rotate=a=${angle}:c=none:ow=rotw(${angle}):oh=roth(${angle})`;
+  }
+
+  // Scaling the rotated layer is the same as rotating the scaled one
+  const zoom = animates('scale')
+    ? `scale=w='max(1,iw*${curve('scale', 't')})':h='max(1,ih*${curve('scale', 't')})':eval=frame`
+    : null;
+
+  const span = getSourceSpan(item);
+  const layer = [
+    item.type === 'video'
+      ? `trim=start=${span.start.toFixed(3)}:end=${span.end.toFixed(3)},setpts=PTS-STARTPTS`
+      : 'setpts=PTS-STARTPTS',
+    isText ? null : `crop=w=iw*${(1 - crop.left - crop.right).toFixed(4)}:h=ih*${(1 - crop.top - crop.bottom).toFixed(4)}:x=iw*${crop.left.toFixed(4)}:y=ih*${crop.top.toFixed(4)}`,
+    frame.reframe && !isText ? reframeCropFilter(getClipReframe(item), frame.width / frame.height) : null,
+    `scale=w=${Math.round(frame.width * scale / 2) * 2}:h=${Math.round(frame.height * scale / 2) * 2}${FIT_SCALE_OPTIONS[frame.reframe || isText ? 'stretch' : item.fit ?? 'fit']}`,
+    'format=rgba',
+    opacity,
+    rotation,
+    zoom
+  ].filter(Boolean).join(',');
+
+  // Rotation grows the frame around its centre, so centring on the
+  // overlay's own size keeps the layer where the preview puts it
+  const offset = (property: 'x' | 'y', size: number) => animates(property)
+    ? `${curve(property, `t-${clipStart.toFixed(3)}`)}*${size}`
+    : (transform[property] * size).toFixed(2);
+  return {
+    filter: `[${inputIndex}:v]${layer}`,
+    position: {
+      x: `(W-w)/2+${offset('x', frame.width)}`,
+      y: `(H-h)/2+${offset('y', frame.height)}`
+    }
+  };
+}
+
+/**
+ * Filters joining clips that follow on from each other with xfade. Each clip
+ * is first placed on a transparent frame, holding its first and last frames
+ * through the transitions either side, so xfade gets equal-sized inputs.
+ * @returns The filters and the label of the joined stream, which starts at 0
+ */
+function buildTransitionChain(
+  members: CompositeInput[],
+  pairs: TransitionPair[],
+  frame: CompositeFrame,
+  nextLabel: () => number
+): { filters: string[]; output: string } {
+  const filters: string[] = [];
+  let output = '';
+
+  members.forEach((member, index) => {
+    const { item } = member;
+    const { before, after } = getTransitionOverhang(item, pairs);
+    const layer = prepareLayer(member, frame, before);
+    const id = nextLabel();
+
+    const hold = before > 0 || after > 0
+      ? `,tpad=start_mode=clone:start_duration=${before.toFixed(3)}:stop_mode=clone:stop_duration=${after.toFixed(3)}`
+      : '';
+    filters.push(`${layer.filter}${hold}[layer${id}]`);
+    filters.push(
+      `color=c=black@0:s=${frame.width}x${frame.height}:r=${frame.fps}:d=${(item.duration + before + after).toFixed(3)},format=rgba[canvas${id}]`
+    );
+    filters.push(`[canvas${id}][layer${id}]overlay=x='${layer.position.x}':y='${layer.position.y}':eof_action=pass,format=gbrap[full${id}]`);
+
+    if (index === 0) {
+      output = `full${id}`;
+      return;
+    }
+
+    // Offsets count from the start of the first clip
+    const pair = pairs.find(p => p.to.id === item.id);
+    const { duration } = pair.transition;
+    const offset = pair.cut - duration / 2 - members[0].item.start;
+    const joined = `xfade${id}`;
+    filters.push(
+      `[${output}][full${id}]xfade=${getXfadeTransition(pair.transition)}:duration=${duration.toFixed(3)}:offset=${offset.toFixed(3)}[${joined}]`
+    );
+    output = joined;
+  });
+
+  return { filters, output };
+}
+
+/**
+ * Build an ffmpeg filter graph that composites layers over the background
+ * colour, matching what the preview draws. Inputs must be given bottom layer
+ * first. With `reframe` set, every clip fills the frame through its reframe
+ * window instead of being sized by its fit mode. Text clips are expected as
+ * frame-sized images, drawn in place unless their transform is animated
+ * (see `renderTextImage`). Clips joined by transitions are blended with xfade
+ * before going onto the composite.
+ * @returns The filter graph and the label of its video output
+ */
+export function buildCompositeFilterGraph(
+  inputs: CompositeInput[],
+  frame: CompositeFrame,
+  duration: number
+): { filter: string; output: string } {
+  const background = (frame.backgroundColor || '#000000').replace('#', '0x');
+  const filters = [`color=c=${background}:s=${frame.width}x${frame.height}:r=${frame.fps}:d=${duration.toFixed(3)}[base]`];
+  const pairs = getTransitionPairs(inputs.map(({ item }) => item));
+  const inputsById = new Map(inputs.map(input => [input.item.id, input]));
+  let current = 'base';
+  let labelCount = 0;
+
+  // Overlay a stream running from `start` to `end` onto the composite so far
+  const overlay = (label: string, position: { x: string; y: string }, start: number, end: number) => {
+    const next = `comp${labelCount++}`;
+    filters.push(
+      `[${current}][${label}]overlay=x='${position.x}':y='${position.y}':eof_action=pass:enable='between(t,${start.toFixed(3)},${end.toFixed(3)})'[${next}]`
+    );
+    current = next;
+  };
+
+  inputs.forEach(({ item }) => {
+    // Clips after a transition are drawn with the clip before them
+    if (pairs.some(pair => pair.to.id === item.id)) return;
+
+    const members = [item];
+    for (let pair = pairs.find(p => p.from.id === item.id); pair; pair = pairs.find(p => p.from.id === pair.to.id)) {
+      members.push(pair.to);
+    }
+
+    if (members.length === 1) {
+      const layer = prepareLayer(inputsById.get(item.id), frame, item.start);
+      const label = `layer${labelCount++}`;
+      filters.push(`${layer.filter},setpts=PTS+${item.start.toFixed(3)}/TB[${label}]`);
+      overlay(label, layer.position, item.start, item.start + item.duration);
+      return;
+    }
+
+    const chain = buildTransitionChain(members.map(member => inputsById.get(member.id)), pairs, frame, () => labelCount++);
+    filters.push(...chain.filters);
+    const label = `chain${labelCount++}`;
+    filters.push(`[${chain.output}]setpts=PTS+${item.start.toFixed(3)}/TB[${label}]`);
+    const last = members[members.length - 1];
+    overlay(label, { x: '0', y: '0' }, item.start, last.start + last.duration);
+  });
+
+  return { filter: filters.join(';'), output: current };
+}
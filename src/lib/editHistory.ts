@@ -0,0 +1,303 @@
+import { ProjectSettings, TimelineItem, TimelineMarker, Track } from '@/components/VideoEditor/VideoEditor';
+
+/**
+ * Command-based undo history. Each edit is recorded as a named command that
+ * holds only what it changed (the items it touched, and the tracks, project
+ * name, settings or markers if those changed), so it can be reverted and re-applied
+ * against the editor state in either direction.
+ */
+
+// Everything an edit can change
+export interface EditState {
+  name: string;
+  items: TimelineItem[];
+  tracks: Track[];
+  settings: ProjectSettings;
+  markers: TimelineMarker[];
+}
+
+interface ItemChange {
+  id: string;
+  before?: TimelineItem; // Missing when the command added the item
+  after?: TimelineItem; // Missing when the command removed the item
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+export interface EditCommand {
+  id: number;
+  label: string;
+  coalesceKey?: string; // Consecutive commands with the same key merge into one step
+  timestamp: number; // When the command was last extended
+  sealed: boolean; // Set at the end of a gesture so the next command starts a new step
+  items: ItemChange[];
+  tracks?: { before: Track[]; after: Track[] };
+  name?: { before: string; after: string };
+  settings?: { before: ProjectSettings; after: ProjectSettings };
+  markers?: { before: TimelineMarker[]; after: TimelineMarker[] };
+  size: number; // Rough memory footprint in bytes
+}
+
+export interface EditHistory {
+  commands: EditCommand[];
+  index: number; // How many commands are applied; commands after it can be redone
+}
+
+// Continuous edits further apart than this start a new step, in ms
+const COALESCE_WINDOW = 1500;
+const MAX_HISTORY_STEPS = 300;
+const MAX_HISTORY_BYTES = 16 * 1024 * 1024;
+
+let nextCommandId = 1;
+
+export const createHistory = (): EditHistory => ({ commands: [], index: 0 });
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const estimateSize = (command: Pick<EditCommand, 'items' | 'tracks' | 'name' | 'settings' | 'markers'>) =>
+  JSON.stringify([command.items, command.tracks, command.name, command.settings, command.markers]).length * 2;
+
+/**
+ * Record the difference between two editor states as a command
+ * @returns The command, or null if nothing changed
+ */
+export function createCommand(
+  label: string,
+  before: EditState,
+  after: EditState,
+  coalesceKey?: string
+): EditCommand | null {
+  const items: ItemChange[] = [];
+
+  if (before.items !== after.items) {
+    const beforeIndex = new Map(before.items.map((item, index) => [item.id, index]));
+    const afterIndex = new Map(after.items.map((item, index) => [item.id, index]));
+
+    before.items.forEach((item, index) => {
+      const updatedIndex = afterIndex.get(item.id);
+      const updated = updatedIndex === undefined ? undefined : after.items[updatedIndex];
+      if (updated !== item && !isSame(updated, item)) {
+        items.push({ id: item.id, before: item, after: updated, beforeIndex: index, afterIndex: updatedIndex ?? -1 });
+      }
+    });
+    after.items.forEach((item, index) => {
+      if (!beforeIndex.has(item.id)) {
+        items.push({ id: item.id, after: item, beforeIndex: -1, afterIndex: index });
+      }
+    });
+  }
+
+  const tracks = before.tracks !== after.tracks && !isSame(before.tracks, after.tracks)
+    ? { before: before.tracks, after: after.tracks }
+    : undefined;
+  const name = before.name !== after.name ? { before: before.name, after: after.name } : undefined;
+  const settings = before.settings !== after.settings && !isSame(before.settings, after.settings)
+    ? { before: before.settings, after: after.settings }
+    : undefined;
+  const markers = before.markers !== after.markers && !isSame(before.markers, after.markers)
+    ? { before: before.markers, after: after.markers }
+    : undefined;
+
+  if (items.length === 0 && !tracks && !name && !settings && !markers) return null;
+
+  const command = { items, tracks, name, settings, markers };
+  return {
+    ...command,
+    id: nextCommandId++,
+    label,
+    coalesceKey,
+    timestamp: Date.now(),
+    sealed: false,
+    size: estimateSize(command)
+  };
+}
+
+/**
+ * Revert a command, or apply it again, against the current state
+ */
+export function applyCommand(state: EditState, command: EditCommand, direction: 'undo' | 'redo'): EditState {
+  const isUndo = direction === 'undo';
+  let items = state.items;
+
+  if (command.items.length > 0) {
+    const changedIds = new Set(command.items.map(change => change.id));
+    items = items.filter(item => !changedIds.has(item.id));
+
+    // Put each item back where it was, in index order so positions line up
+    command.items
+      .map(change => ({
+        item: isUndo ? change.before : change.after,
+        index: isUndo ? change.beforeIndex : change.afterIndex
+      }))
+      .filter((entry): entry is { item: TimelineItem; index: number } => !!entry.item)
+      .sort((a, b) => a.index - b.index)
+      .forEach(({ item, index }) => {
+        items.splice(Math.min(index, items.length), 0, item);
+      });
+  }
+
+  return {
+    name: command.name ? (isUndo ? command.name.before : command.name.after) : state.name,
+    items,
+    tracks: command.tracks ? (isUndo ? command.tracks.before : command.tracks.after) : state.tracks,
+    settings: command.settings ? (isUndo ? command.settings.before : command.settings.after) : state.settings,
+    markers: command.markers ? (isUndo ? command.markers.before : command.markers.after) : state.markers
+  };
+}
+
+// Fold a follow-up command into the one before it
+const mergeCommands = (previous: EditCommand, next: EditCommand): EditCommand => {
+  const changes = new Map(previous.items.map(change => [change.id, change]));
+
+  next.items.forEach(change => {
+    const earlier = changes.get(change.id);
+    changes.set(change.id, earlier
+      ? { ...earlier, after: change.after, afterIndex: change.afterIndex }
+      : change
+    );
+  });
+
+  const items = Array.from(changes.values()).filter(change => !isSame(change.before, change.after));
+  const tracks = previous.tracks || next.tracks
+    ? { before: (previous.tracks ?? next.tracks).before, after: (next.tracks ?? previous.tracks).after }
+    : undefined;
+  const name = previous.name || next.name
+    ? { before: (previous.name ?? next.name).before, after: (next.name ?? previous.name).after }
+    : undefined;
+  const settings = previous.settings || next.settings
+    ? { before: (previous.settings ?? next.settings).before, after: (next.settings ?? previous.settings).after }
+    : undefined;
+  const markers = previous.markers || next.markers
+    ? { before: (previous.markers ?? next.markers).before, after: (next.markers ?? previous.markers).after }
+    : undefined;
+
+  const merged = { items, tracks, name, settings, markers };
+  return { ...previous, ...merged, timestamp: next.timestamp, size: estimateSize(merged) };
+};
+
+/**
+ * Add a command, dropping anything that could be redone. A command that
+ * continues the previous one (same coalesce key, soon after, gesture not yet
+ * finished) is merged into it rather than added as a new step. The oldest
+ * steps are discarded once the history grows past its limits.
+ */
+export function pushCommand(history: EditHistory, command: EditCommand): EditHistory {
+  const commands = history.commands.slice(0, history.index);
+  const last = commands[commands.length - 1];
+
+  if (
+    last &&
+    !last.sealed &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey &&
+    command.timestamp - last.timestamp < COALESCE_WINDOW
+  ) {
+    commands[commands.length - 1] = mergeCommands(last, command);
+  } else {
+    commands.push(command);
+  }
+
+  let totalSize = commands.reduce((total, entry) => total + entry.size, 0);
+  while (commands.length > 1 && (commands.length > MAX_HISTORY_STEPS || totalSize > MAX_HISTORY_BYTES)) {
+    totalSize -= commands.shift()!.size;
+  }
+
+  return { commands, index: commands.length };
+}
+
+/**
+ * Stop the latest command from absorbing further edits
+ */
+export function sealHistory(history: EditHistory): EditHistory {
+  const last = history.commands[history.index - 1];
+  if (!last || last.sealed) return history;
+
+  const commands = [...history.commands];
+  commands[history.index - 1] = { ...last, sealed: true };
+  return { ...history, commands };
+}
+
+/**
+ * Move through the history to a given number of applied commands
+ * @returns The history and the editor state at that point
+ */
+export function jumpToIndex(
+  history: EditHistory,
+  state: EditState,
+  index: number
+): { history: EditHistory; state: EditState } {
+  const target = Math.max(0, Math.min(history.commands.length, index));
+  let current = state;
+
+  for (let i = history.index - 1; i >= target; i--) {
+    current = applyCommand(current, history.commands[i], 'undo');
+  }
+  for (let i = history.index; i < target; i++) {
+    current = applyCommand(current, history.commands[i], 'redo');
+  }
+
+  // Whatever comes next starts its own step
+  const commands = history.commands.map(command => command.sealed ? command : { ...command, sealed: true });
+  return { history: { commands, index: target }, state: current };
+}
+
+/**
+ * Name an edit to one or more clips after what changed about the first of them
+ */
+export function describeItemChange(before: TimelineItem, after: TimelineItem, count = 1): string {
+  const clips = count === 1 ? 'clip' : 'clips';
+  if (before.duration !== after.duration || before.trimStart !== after.trimStart || before.trimEnd !== after.trimEnd) {
+    return `Trim ${clips}`;
+  }
+  if (before.start !== after.start || before.trackId !== after.trackId) return `Move ${clips}`;
+  if (!isSame(before.keyframes, after.keyframes)) return 'Edit keyframes';
+  if (before.volume !== after.volume || before.muted !== after.muted) return 'Change volume';
+  if (before.fadeIn !== after.fadeIn || before.fadeOut !== after.fadeOut) return 'Change fades';
+  if (!isSame(before.transform, after.transform)) return `Transform ${clips}`;
+  if (before.fit !== after.fit) return `Change ${clips} fit`;
+  if (!isSame(before.reframe, after.reframe)) return `Reframe ${clips}`;
+  if (!isSame(before.text, after.text)) return 'Edit text';
+  if (!isSame(before.transitionIn, after.transitionIn)) {
+    if (!after.transitionIn) return 'Remove transition';
+    return before.transitionIn ? 'Edit transition' : 'Add transition';
+  }
+  if (!isSame(before.markers, after.markers)) return describeMarkerChange(before.markers ?? [], after.markers ?? []);
+  return `Edit ${clips}`;
+}
+
+/**
+ * Name an edit to a list of markers
+ */
+export function describeMarkerChange(before: TimelineMarker[], after: TimelineMarker[]): string {
+  if (after.length > before.length) return 'Add marker';
+  if (after.length < before.length) return 'Delete marker';
+
+  const changed = after.find(marker => !isSame(marker, before.find(other => other.id === marker.id)));
+  const previous = changed && before.find(marker => marker.id === changed.id);
+  if (!changed || !previous) return 'Edit markers';
+
+  if (changed.time !== previous.time) return 'Move marker';
+  if (changed.duration !== previous.duration) return 'Resize marker';
+  if (changed.chapter !== previous.chapter) return changed.chapter ? 'Mark chapter' : 'Unmark chapter';
+  return 'Edit marker';
+}
+
+/**
+ * Name an edit to the track list
+ */
+export function describeTrackChange(before: Track[], after: Track[]): string {
+  if (after.length > before.length) return 'Add track';
+  if (after.length < before.length) return 'Delete track';
+
+  const changed = after.find(track => !isSame(track, before.find(other => other.id === track.id)));
+  const previous = changed && before.find(track => track.id === changed.id);
+  if (!changed || !previous) return 'Reorder tracks';
+
+  if (changed.name !== previous.name) return 'Rename track';
+  if (changed.height !== previous.height) return 'Resize track';
+  if (changed.locked !== previous.locked) return changed.locked ? 'Lock track' : 'Unlock track';
+  if (changed.hidden !== previous.hidden) return changed.hidden ? 'Hide track' : 'Show track';
+  if (changed.mute !== previous.mute) return changed.mute ? 'Mute track' : 'Unmute track';
+  if (changed.solo !== previous.solo) return changed.solo ? 'Solo track' : 'Unsolo track';
+  return 'Edit track';
+}
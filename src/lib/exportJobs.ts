@@ -0,0 +1,185 @@
+import { toast } from 'sonner';
+import { loadFFmpeg, terminateFFmpeg } from './ffmpeg';
+import { ExportRequest, getExportFilename, renderExport } from './exportRenderer';
+
+/**
+ * Queue of exports that runs independently of the export dialog. Jobs render
+ * one at a time, as they share the single ffmpeg instance, and announce
+ * themselves when they finish so the user can keep editing meanwhile.
+ */
+
+export type ExportJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+  id: string;
+  request: ExportRequest;
+  filename: string;
+  status: ExportJobStatus;
+  stage: string;
+  progress: number; // 0-100
+  error?: string;
+  downloadUrl?: string; // Object URL of the finished file
+  createdAt: number;
+}
+
+type Listener = (jobs: ExportJob[]) => void;
+
+let jobs: ExportJob[] = [];
+const listeners = new Set<Listener>();
+let runningJob: { id: string; controller: AbortController } | null = null;
+
+const emit = () => {
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (id: string, changes: Partial<ExportJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  emit();
+};
+
+export const getExportJobs = (): ExportJob[] => jobs;
+
+/**
+ * Be told whenever a job is added, changes or is removed
+ * @returns A function that stops listening
+ */
+export function subscribeToExportJobs(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Save a finished export to the user's downloads
+ */
+export function downloadExportJob(job: ExportJob): void {
+  if (!job.downloadUrl) return;
+
+  const link = document.createElement('a');
+  link.href = job.downloadUrl;
+  link.download = job.filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// A system notification too, for when the user has switched to another tab
+const notify = (title: string, body: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) return;
+  new Notification(title, { body });
+};
+
+const runJob = async (job: ExportJob) => {
+  const controller = new AbortController();
+  runningJob = { id: job.id, controller };
+  updateJob(job.id, { status: 'running', stage: 'Initializing FFmpeg', progress: 0, error: undefined });
+
+  try {
+    const ffmpeg = await loadFFmpeg();
+    const blob = await renderExport(
+      ffmpeg,
+      job.request,
+      (stage, progress) => {
+        if (!controller.signal.aborted) updateJob(job.id, { stage, progress });
+      },
+      { prefix: `job_${job.id.slice(0, 8)}`, signal: controller.signal }
+    );
+
+    const finished = { ...job, downloadUrl: URL.createObjectURL(blob) };
+    updateJob(job.id, { status: 'done', stage: 'Export complete!', progress: 100, downloadUrl: finished.downloadUrl });
+
+    toast.success('Export complete!', {
+      description: `${job.filename} is ready for download.`,
+      action: { label: 'Download', onClick: () => downloadExportJob(finished) }
+    });
+    notify('Export complete', `${job.filename} is ready for download.`);
+  } catch (error) {
+    if (controller.signal.aborted) return; // Already marked as cancelled
+
+    console.error('Export error:', error);
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    updateJob(job.id, { status: 'failed', stage: 'Export failed', error: message });
+
+    toast.error('Export failed', { description: `${job.filename}: ${message}` });
+    notify('Export failed', job.filename);
+  } finally {
+    runningJob = null;
+  }
+};
+
+// Work through queued jobs until none are left
+const processQueue = async () => {
+  if (runningJob) return;
+
+  let next = jobs.find(job => job.status === 'queued');
+  while (next) {
+    await runJob(next);
+    next = jobs.find(job => job.status === 'queued');
+  }
+};
+
+/**
+ * Add an export to the queue; it starts as soon as the ones before it finish
+ */
+export function enqueueExport(request: ExportRequest): ExportJob {
+  const job: ExportJob = {
+    id: crypto.randomUUID(),
+    request,
+    filename: getExportFilename(request),
+    status: 'queued',
+    stage: 'Waiting to start',
+    progress: 0,
+    createdAt: Date.now()
+  };
+  jobs = [...jobs, job];
+  emit();
+
+  // Asked while the user is clicking Export, so the browser shows the prompt
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+
+  processQueue();
+  return job;
+}
+
+/**
+ * Stop a queued or running export. A running one is halted by shutting
+ * ffmpeg down; the next job loads it again.
+ */
+export function cancelExportJob(id: string): void {
+  const job = jobs.find(entry => entry.id === id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+  if (runningJob?.id === id) {
+    runningJob.controller.abort();
+    terminateFFmpeg();
+  }
+  updateJob(id, { status: 'cancelled', stage: 'Cancelled' });
+}
+
+/**
+ * Queue a cancelled or failed export again, with the same settings. There is
+ * no resuming: ffmpeg can't pick up a render part way through, so the job
+ * starts over from the beginning.
+ */
+export function retryExportJob(id: string): void {
+  const job = jobs.find(entry => entry.id === id);
+  if (!job || (job.status !== 'cancelled' && job.status !== 'failed')) return;
+
+  updateJob(id, { status: 'queued', stage: 'Waiting to start', progress: 0, error: undefined });
+  processQueue();
+}
+
+/**
+ * Forget a job that is no longer running, releasing its file
+ */
+export function removeExportJob(id: string): void {
+  const job = jobs.find(entry => entry.id === id);
+  if (!job || job.status === 'running') return;
+
+  if (job.downloadUrl) URL.revokeObjectURL(job.downloadUrl);
+  jobs = jobs.filter(entry => entry.id !== id);
+  emit();
+}
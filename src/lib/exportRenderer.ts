@@ -0,0 +1,445 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import JSZip from 'jszip';
+import { toast } from 'sonner';
+import { ProjectSettings, TimelineItem, TimelineMarker, Track } from '@/components/VideoEditor/VideoEditor';
+import type {
+  AudioExportFormat,
+  AudioExportOptions,
+  ExportAspectRatio,
+  ExportFormat,
+  ExportOptions,
+  ExportQuality,
+  ExportSize
+} from '@/components/VideoEditor/ExportService';
+import { buildCompositeFilterGraph, CompositeInput, getVisualLayers } from './compositing';
+import { AudioMixInput, buildAudioMixFilterGraph, getItemGain, hasSound, loudnessFilter } from './audioMix';
+import { deleteFFmpegFiles, execFFmpeg, hasAudioStream } from './ffmpeg';
+import { getMediaBlob } from './mediaSource';
+import { renderTextImage } from './textOverlay';
+import { snapItemToFrames, snapToFrame } from './timecode';
+import { cropItemsToRange } from './timelineEdits';
+import { chaptersToMetadata, getChapters } from './markers';
+import { frameForAspectRatio, parseAspectRatio, scaleFrameToShortSide } from './projectSettings';
+
+/**
+ * Everything needed to render a project, captured when the export is queued
+ * so later edits don't change it
+ */
+export interface ExportRequest {
+  projectName: string;
+  items: TimelineItem[]; // What the preview plays, after hide/mute/solo
+  tracks: Track[];
+  settings: ProjectSettings;
+  markers: TimelineMarker[]; // Ruler markers, some of which start chapters
+  options: ExportOptions;
+}
+
+export type ExportProgressHandler = (stage: string, progress: number) => void;
+
+export const AUDIO_EXPORT_FORMATS: AudioExportFormat[] = ['wav', 'mp3', 'aac'];
+
+export const DEFAULT_AUDIO_EXPORT_OPTIONS: AudioExportOptions = {
+  bitrate: 192,
+  sampleRate: 48000,
+  loudnessTarget: -16,
+  stems: false
+};
+
+/**
+ * Whether a format holds sound only
+ */
+export function isAudioFormat(format: ExportFormat): format is AudioExportFormat {
+  return (AUDIO_EXPORT_FORMATS as ExportFormat[]).includes(format);
+}
+
+const AUDIO_MIME_TYPES: Record<AudioExportFormat, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  aac: 'audio/aac'
+};
+
+// Encoder arguments for an audio-only file
+const getAudioCodecArgs = (format: AudioExportFormat, { bitrate, sampleRate }: AudioExportOptions): string[] => {
+  switch (format) {
+    case 'wav': return ['-c:a', 'pcm_s16le', '-ar', String(sampleRate)];
+    case 'mp3': return ['-c:a', 'libmp3lame', '-b:a', `${bitrate}k`, '-ar', String(sampleRate)];
+    case 'aac': return ['-c:a', 'aac', '-b:a', `${bitrate}k`, '-ar', String(sampleRate)];
+  }
+};
+
+const SIZE_SHORT_SIDES: Record<Exclude<ExportSize, 'project'>, number> = {
+  '480p': 480,
+  '720p': 720,
+  '1080p': 1080
+};
+
+/**
+ * Whether clips are reframed to a shape other than the project's
+ */
+export function isReframed(settings: ProjectSettings, aspectRatio: ExportAspectRatio): boolean {
+  return aspectRatio !== 'project' &&
+    Math.abs(parseAspectRatio(aspectRatio) - settings.width / settings.height) > 0.01;
+}
+
+/**
+ * Output frame size for the chosen resolution and aspect ratio
+ */
+export function getExportDimensions(
+  settings: ProjectSettings,
+  { size, aspectRatio }: ExportOptions
+): { width: number; height: number } {
+  const shortSide = size === 'project' ? Math.min(settings.width, settings.height) : SIZE_SHORT_SIDES[size];
+  if (isReframed(settings, aspectRatio)) {
+    return frameForAspectRatio(aspectRatio, shortSide);
+  }
+  return size === 'project'
+    ? { width: settings.width, height: settings.height }
+    : scaleFrameToShortSide(settings, shortSide);
+}
+
+// Temporary file extension of each kind of visual layer
+const LAYER_EXTENSIONS: Record<TimelineItem['type'], string> = {
+  video: 'mp4',
+  image: 'img',
+  text: 'png',
+  audio: 'audio'
+};
+
+// Get FFmpeg quality settings
+const getFFmpegQualitySettings = (quality: ExportQuality): string => {
+  switch (quality) {
+    case 'high': return '-crf 18 -preset slow';
+    case 'standard': return '-crf 23 -preset medium';
+    case 'draft': return '-crf 28 -preset ultrafast';
+    default: return '-crf 23 -preset medium';
+  }
+};
+
+/**
+ * Name of the downloaded file, e.g. my_project_9x16_2026-10-19T12-00-00-000Z.mp4
+ */
+export function getExportFilename({ projectName, settings, options }: ExportRequest): string {
+  const safeProjectName = projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  if (isAudioFormat(options.format)) {
+    return `${safeProjectName}_${timestamp}.${options.audio?.stems ? 'zip' : options.format}`;
+  }
+  const ratioSuffix = isReframed(settings, options.aspectRatio) ? `_${options.aspectRatio.replace(':', 'x')}` : '';
+  return `${safeProjectName}${ratioSuffix}_${timestamp}.${options.format}`;
+}
+
+/**
+ * Render a project to a video or audio file. ffmpeg itself runs in ffmpeg.wasm's web
+ * worker; this only feeds it media and commands, so the page stays responsive.
+ * @param prefix Prepended to every temporary file, so jobs never share files
+ */
+export async function renderExport(
+  ffmpeg: FFmpeg,
+  request: ExportRequest,
+  onProgress: ExportProgressHandler,
+  { prefix = 'export', signal }: { prefix?: string; signal?: AbortSignal } = {}
+): Promise<Blob> {
+  const { items, tracks, settings, options } = request;
+  const { fps } = settings;
+  const tempFiles: string[] = [];
+
+  // During a command, ffmpeg reports how far through it is, from 0 to 1
+  let stage = '';
+  let stageRange: [number, number] = [0, 0];
+  const report = (nextStage: string, from: number, to = from) => {
+    stage = nextStage;
+    stageRange = [from, to];
+    onProgress(stage, Math.floor(from));
+  };
+  const progressCallback = ({ progress }: { progress: number }) => {
+    const [from, to] = stageRange;
+    onProgress(stage, Math.floor(from + (to - from) * Math.min(1, Math.max(0, progress))));
+  };
+  const loggerCallback = ({ message }: { message: string }) => {
+    console.log('FFmpeg Log:', message);
+  };
+
+  ffmpeg.on('progress', progressCallback);
+  ffmpeg.on('log', loggerCallback);
+
+  try {
+    // Every clip cut on the same frames as the preview, and only the part
+    // inside the export range, which then starts at zero
+    const { range } = options;
+    const rangeStart = range ? snapToFrame(range.start, fps) : 0;
+    const rangeEnd = range ? snapToFrame(range.end, fps) : Infinity;
+    const chosenItems = range?.itemIds ? items.filter(item => range.itemIds.includes(item.id)) : items;
+    const frameItems = cropItemsToRange(chosenItems.map(item => snapItemToFrames(item, fps)), rangeStart, rangeEnd);
+    if (frameItems.length === 0) {
+      throw new Error('Nothing on the timeline in the export range');
+    }
+
+    const timelineEnd = range
+      ? rangeEnd - rangeStart
+      : Math.max(...frameItems.map(item => item.start + item.duration));
+
+    if (isAudioFormat(options.format)) {
+      return await renderAudio(
+        { ffmpeg, prefix, signal, tempFiles, report },
+        { items: frameItems, tracks, duration: timelineEnd, projectName: request.projectName },
+        options.format,
+        options.audio ?? { ...DEFAULT_AUDIO_EXPORT_OPTIONS, sampleRate: settings.sampleRate }
+      );
+    }
+
+    const videoItems = getVisualLayers(frameItems, tracks); // Bottom layer first
+    const audioItems = frameItems.filter(item => item.type === 'audio');
+
+    // Download every clip and record its ffmpeg input arguments
+    const inputArgs: string[] = [];
+    const compositeInputs: CompositeInput[] = [];
+    const audioInputs: AudioMixInput[] = [];
+    let inputCount = 0;
+
+    const dimensions = getExportDimensions(settings, options);
+
+    for (let i = 0; i < videoItems.length; i++) {
+      const item = videoItems[i];
+      if (!item.src && item.type !== 'text') continue;
+      signal?.throwIfAborted();
+
+      report(`${item.type === 'text' ? 'Drawing' : 'Downloading'} ${item.type} ${i+1} of ${videoItems.length}`, (i / videoItems.length) * 30); // First 30% for downloading
+
+      try {
+        // Text is drawn the way the preview draws it, at the export size
+        const blob = item.type === 'text' ? await renderTextImage(item, dimensions) : await getMediaBlob(item.src);
+        const filename = `${prefix}_layer_${i}.${LAYER_EXTENSIONS[item.type]}`;
+
+        // Write file to FFmpeg virtual filesystem
+        await ffmpeg.writeFile(filename, new Uint8Array(await blob.arrayBuffer()));
+        tempFiles.push(filename);
+
+        // Stills are looped for as long as they sit on the timeline
+        if (item.type === 'image' || item.type === 'text') {
+          inputArgs.push('-loop', '1', '-t', item.duration.toFixed(3));
+        }
+        const inputIndex = inputCount++;
+        inputArgs.push('-i', filename);
+        compositeInputs.push({ item, inputIndex });
+
+        // The preview plays the sound of video clips too
+        if (item.type === 'video' && getItemGain(item) > 0 && await hasAudioStream(ffmpeg, filename)) {
+          audioInputs.push({ item, inputIndex });
+        }
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Error downloading ${item.type} ${i+1}:`, error);
+        toast.error(`Error downloading ${item.type} ${i+1}`, {
+          description: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    for (let i = 0; i < audioItems.length; i++) {
+      const item = audioItems[i];
+      if (!item.src || getItemGain(item) === 0) continue;
+      signal?.throwIfAborted();
+
+      report(`Downloading audio ${i+1} of ${audioItems.length}`, 30 + (i / audioItems.length) * 10); // 30-40% for downloading audio
+
+      try {
+        const blob = await getMediaBlob(item.src);
+        const filename = `${prefix}_audio_${i}.audio`;
+
+        // Write file to FFmpeg virtual filesystem
+        await ffmpeg.writeFile(filename, new Uint8Array(await blob.arrayBuffer()));
+        tempFiles.push(filename);
+        inputArgs.push('-i', filename);
+        audioInputs.push({ item, inputIndex: inputCount++ });
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Error downloading audio ${i+1}:`, error);
+        toast.error(`Error downloading audio ${i+1}`, {
+          description: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    // Get export settings
+    const qualitySettings = getFFmpegQualitySettings(options.quality);
+    const renderFilename = `${prefix}_render.mp4`;
+    const outputFilename = `${prefix}_output.${options.format}`;
+    tempFiles.push(renderFilename, outputFilename);
+
+    // Composite the layers over the background colour and mix the sound
+    // over silence, so gaps come out as they look and sound in the preview
+    signal?.throwIfAborted();
+    report('Rendering timeline', 40, 80);
+
+    const video = buildCompositeFilterGraph(
+      compositeInputs,
+      { ...dimensions, fps, backgroundColor: settings.backgroundColor, reframe: isReframed(settings, options.aspectRatio) },
+      timelineEnd
+    );
+    const audio = buildAudioMixFilterGraph(audioInputs, { sampleRate: settings.sampleRate, duration: timelineEnd });
+
+    await execFFmpeg(ffmpeg, [
+      ...inputArgs,
+      '-filter_complex', `${video.filter};${audio.filter}`,
+      '-map', `[${video.output}]`,
+      '-map', `[${audio.output}]`,
+      '-c:v', 'libx264',
+      '-pix_fmt', 'yuv420p',
+      '-preset', 'ultrafast',
+      '-c:a', 'aac',
+      '-t', timelineEnd.toFixed(3),
+      renderFilename
+    ]);
+
+    // Chapters go in as a second input whose chapters are copied over
+    const chapters = options.format === 'mp4' && options.chapters
+      ? getChapters(request.markers, { start: rangeStart, end: rangeStart + timelineEnd })
+      : [];
+    const chapterArgs: string[] = [];
+    if (chapters.length > 0) {
+      const chaptersFilename = `${prefix}_chapters.txt`;
+      tempFiles.push(chaptersFilename);
+      await ffmpeg.writeFile(chaptersFilename, chaptersToMetadata(chapters));
+      chapterArgs.push('-f', 'ffmetadata', '-i', chaptersFilename, '-map', '0', '-map_chapters', '1');
+    }
+
+    // Final encoding with quality settings and dimensions
+    signal?.throwIfAborted();
+    report('Finalizing export', 80, 95);
+
+    await execFFmpeg(ffmpeg, [
+      '-i', renderFilename,
+      ...chapterArgs,
+      '-s', `${dimensions.width}x${dimensions.height}`,
+      '-r', String(fps),
+      '-ar', String(settings.sampleRate),
+      ...qualitySettings.split(' '),
+      outputFilename
+    ]);
+
+    report('Preparing download', 95);
+    const data = await ffmpeg.readFile(outputFilename);
+    if (!(data instanceof Uint8Array)) {
+      throw new Error('Failed to read output file');
+    }
+    return new Blob([new Uint8Array(data)], { type: `video/${options.format}` });
+  } finally {
+    ffmpeg.off('progress', progressCallback);
+    ffmpeg.off('log', loggerCallback);
+    // A cancelled export has already torn ffmpeg down along with its files
+    if (!signal?.aborted) {
+      await deleteFFmpegFiles(ffmpeg, tempFiles);
+    }
+  }
+}
+
+interface RenderContext {
+  ffmpeg: FFmpeg;
+  prefix: string;
+  signal?: AbortSignal;
+  tempFiles: string[];
+  report: (stage: string, from: number, to?: number) => void;
+}
+
+/**
+ * Mix the timeline's sound down to an audio file, optionally zipped together
+ * with one stem per track. Stems keep the mixed levels and are not normalized,
+ * so they line back up with each other in another editor.
+ */
+async function renderAudio(
+  { ffmpeg, prefix, signal, tempFiles, report }: RenderContext,
+  { items, tracks, duration, projectName }: { items: TimelineItem[]; tracks: Track[]; duration: number; projectName: string },
+  format: AudioExportFormat,
+  audioOptions: AudioExportOptions
+): Promise<Blob> {
+  const { sampleRate, loudnessTarget, stems } = audioOptions;
+  const sources = items.filter(item => item.src && hasSound(item) && getItemGain(item) > 0);
+
+  // Download every clip with sound and record its ffmpeg input arguments
+  const inputArgs: string[] = [];
+  const inputs: AudioMixInput[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    const item = sources[i];
+    signal?.throwIfAborted();
+
+    report(`Downloading ${item.type} ${i+1} of ${sources.length}`, (i / sources.length) * 40); // First 40% for downloading
+
+    try {
+      const blob = await getMediaBlob(item.src);
+      const filename = `${prefix}_sound_${i}.${item.type === 'video' ? 'mp4' : 'audio'}`;
+
+      await ffmpeg.writeFile(filename, new Uint8Array(await blob.arrayBuffer()));
+      tempFiles.push(filename);
+
+      if (item.type === 'video' && !await hasAudioStream(ffmpeg, filename)) continue;
+      inputs.push({ item, inputIndex: inputs.length });
+      inputArgs.push('-i', filename);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Error downloading ${item.type} ${i+1}:`, error);
+      toast.error(`Error downloading ${item.type} ${i+1}`, {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const codecArgs = getAudioCodecArgs(format, audioOptions);
+
+  // Mix a set of inputs into a file and read it back
+  const mixDown = async (mixInputs: AudioMixInput[], name: string, normalize: boolean): Promise<Blob> => {
+    let { filter, output } = buildAudioMixFilterGraph(mixInputs, { sampleRate, duration });
+    if (normalize && loudnessTarget !== null) {
+      filter += `;[${output}]${loudnessFilter(loudnessTarget, sampleRate)}[normalized]`;
+      output = 'normalized';
+    }
+    const filename = `${prefix}_${name}.${format}`;
+    tempFiles.push(filename);
+
+    await execFFmpeg(ffmpeg, [
+      ...inputArgs,
+      '-filter_complex', filter,
+      '-map', `[${output}]`,
+      ...codecArgs,
+      '-t', duration.toFixed(3),
+      filename
+    ]);
+
+    const data = await ffmpeg.readFile(filename);
+    if (!(data instanceof Uint8Array)) {
+      throw new Error('Failed to read output file');
+    }
+    return new Blob([new Uint8Array(data)], { type: AUDIO_MIME_TYPES[format] });
+  };
+
+  const stemTracks = stems
+    ? tracks.filter(track => inputs.some(({ item }) => item.trackId === track.id))
+    : [];
+  const steps = 1 + stemTracks.length;
+
+  signal?.throwIfAborted();
+  report('Mixing audio', 40, 40 + 55 / steps);
+  const mixdown = await mixDown(inputs, 'mixdown', true);
+
+  if (!stems) {
+    report('Preparing download', 95);
+    return mixdown;
+  }
+
+  const safeProjectName = projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const zip = new JSZip();
+  zip.file(`${safeProjectName}_mix.${format}`, mixdown);
+
+  for (let i = 0; i < stemTracks.length; i++) {
+    const track = stemTracks[i];
+    signal?.throwIfAborted();
+    report(`Exporting stem ${i+1} of ${stemTracks.length}`, 40 + (55 * (i + 1)) / steps, 40 + (55 * (i + 2)) / steps);
+
+    const stem = await mixDown(inputs.filter(({ item }) => item.trackId === track.id), `stem_${i}`, false);
+    const safeTrackName = track.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    zip.file(`stems/${String(i + 1).padStart(2, '0')}_${safeTrackName}.${format}`, stem);
+  }
+
+  report('Preparing download', 95);
+  return zip.generateAsync({ type: 'blob' });
+}
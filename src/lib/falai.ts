@@ -6,10 +6,12 @@ interface ScriptGenerationOptions {
   aspectRatio?: '16:9' | '9:16';
 }
 
+export type PikaAspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '5:4' | '3:2' | '2:3';
+
 interface PikaGenerationOptions {
   duration?: number;
   negative_prompt?: string;
-  aspect_ratio?: '16:9' | '9:16' | '1:1' | '4:5' | '5:4' | '3:2' | '2:3';
+  aspect_ratio?: PikaAspectRatio;
   resolution?: '720p' | '1080p';
   seed?: number;
 }
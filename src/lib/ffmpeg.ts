@@ -0,0 +1,83 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+/**
+ * ffmpeg.wasm, loaded once and shared by every export. The core and its
+ * WebAssembly binary are bundled by Vite and served from our own origin, so
+ * exporting works offline and under a CSP that blocks third-party scripts.
+ */
+
+let ffmpeg: FFmpeg | null = null;
+let loading: Promise<FFmpeg> | null = null;
+
+/**
+ * The shared ffmpeg instance, loading it on first use
+ */
+export function loadFFmpeg(): Promise<FFmpeg> {
+  if (ffmpeg) return Promise.resolve(ffmpeg);
+
+  if (!loading) {
+    const instance = new FFmpeg();
+    loading = instance
+      .load({ coreURL, wasmURL })
+      .then(() => {
+        ffmpeg = instance;
+        return instance;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+/**
+ * Stop whatever ffmpeg is doing by shutting down its worker. Its pending
+ * calls reject, and the next loadFFmpeg starts a fresh instance.
+ */
+export function terminateFFmpeg(): void {
+  ffmpeg?.terminate();
+  ffmpeg = null;
+}
+
+/**
+ * Run an ffmpeg command, failing if ffmpeg reports an error
+ */
+export async function execFFmpeg(instance: FFmpeg, args: string[]): Promise<void> {
+  const exitCode = await instance.exec(args);
+  if (exitCode !== 0) {
+    throw new Error(`ffmpeg exited with code ${exitCode}`);
+  }
+}
+
+/**
+ * Delete files from ffmpeg's virtual filesystem, ignoring any that are missing
+ */
+export async function deleteFFmpegFiles(instance: FFmpeg, files: string[]): Promise<void> {
+  await Promise.all(files.map(file =>
+    instance.deleteFile(file).catch(error => {
+      console.warn('Error cleaning up file:', file, error);
+    })
+  ));
+}
+
+/**
+ * Whether a file in ffmpeg's filesystem has an audio stream. ffmpeg lists the
+ * streams of an input it is given nothing to do with, so the log tells us.
+ */
+export async function hasAudioStream(instance: FFmpeg, filename: string): Promise<boolean> {
+  let found = false;
+  const onLog = ({ message }: { message: string }) => {
+    if (/Stream #.*Audio:/.test(message)) found = true;
+  };
+
+  instance.on('log', onLog);
+  try {
+    // Exits with an error as no output is given
+    await instance.exec(['-hide_banner', '-i', filename]);
+  } finally {
+    instance.off('log', onLog);
+  }
+  return found;
+}
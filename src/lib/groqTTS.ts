@@ -52,7 +52,7 @@ async function initBlobDB(): Promise<IDBDatabase> {
  * @param text The text used to generate the audio (for reference)
  * @returns A Promise that resolves to the blob ID
  */
-async function storeBlobInIndexedDB(blob: Blob, text: string): Promise<string> {
+export async function storeBlobInIndexedDB(blob: Blob, text: string): Promise<string> {
   try {
     const db = await initBlobDB();
     const id = `audio-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
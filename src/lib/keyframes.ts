@@ -0,0 +1,257 @@
+import { ClipTransform, Keyframe, KeyframeInterpolation, KeyframeProperty, TimelineItem } from '@/components/VideoEditor/VideoEditor';
+import { getSourceSpan } from './timelineEdits';
+
+/**
+ * Keyframe animation of clip properties.
+ *
+ * A property with keyframes takes its value from them instead of from its
+ * fixed setting. Between two keyframes the value moves linearly, eases in and
+ * out, or holds until the next one; before the first and after the last it
+ * stays put. Keyframe times count from the start of the clip's source, so
+ * they stay on the same frame when the clip is trimmed or split.
+ *
+ * The preview evaluates curves with `getPropertyValue`, and the export turns
+ * them into ffmpeg expressions of time with `keyframeExpression`, so both
+ * follow exactly the same curve.
+ */
+
+export interface KeyframePropertyInfo {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number; // When a clip has no value of its own
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const KEYFRAME_PROPERTIES: Record<KeyframeProperty, KeyframePropertyInfo> = {
+  volume: { label: 'Volume', min: 0, max: 1, step: 0.01, defaultValue: 1, format: percent },
+  opacity: { label: 'Opacity', min: 0, max: 1, step: 0.01, defaultValue: 1, format: percent },
+  x: { label: 'X', min: -1, max: 1, step: 0.01, defaultValue: 0, format: percent },
+  y: { label: 'Y', min: -1, max: 1, step: 0.01, defaultValue: 0, format: percent },
+  scale: { label: 'Scale', min: 0.05, max: 3, step: 0.01, defaultValue: 1, format: percent },
+  rotation: { label: 'Rotation', min: -180, max: 180, step: 1, defaultValue: 0, format: value => `${Math.round(value)}°` }
+};
+
+// Properties that are part of a clip's transform
+export const TRANSFORM_KEYFRAME_PROPERTIES: KeyframeProperty[] = ['x', 'y', 'scale', 'rotation', 'opacity'];
+
+export const KEYFRAME_INTERPOLATIONS: { value: KeyframeInterpolation; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease', label: 'Ease' },
+  { value: 'hold', label: 'Hold' }
+];
+
+// Keyframes closer than this share a time, in seconds
+const KEYFRAME_EPSILON = 0.001;
+
+/**
+ * Whether a property applies to an item: volume to clips with sound, the
+ * transform to clips with pictures
+ */
+export function canAnimate(item: TimelineItem, property: KeyframeProperty): boolean {
+  return property === 'volume'
+    ? item.type === 'audio' || item.type === 'video'
+    : item.type === 'video' || item.type === 'image' || item.type === 'text';
+}
+
+/**
+ * An item's keyframes for a property, sorted by time
+ */
+export function getKeyframes(item: TimelineItem, property: KeyframeProperty): Keyframe[] {
+  return item.keyframes?.[property] ?? [];
+}
+
+export function isAnimated(item: TimelineItem, property: KeyframeProperty): boolean {
+  return getKeyframes(item, property).length > 0;
+}
+
+/**
+ * Whether any part of an item's transform is animated
+ */
+export function isTransformAnimated(item: TimelineItem): boolean {
+  return TRANSFORM_KEYFRAME_PROPERTIES.some(property => isAnimated(item, property));
+}
+
+/**
+ * A property's fixed value, used while it has no keyframes
+ */
+export function getFixedValue(item: TimelineItem, property: KeyframeProperty): number {
+  const value = property === 'volume' ? item.volume : item.transform?.[property];
+  return value ?? KEYFRAME_PROPERTIES[property].defaultValue;
+}
+
+/**
+ * Where a timeline time falls in an item's source. Times outside the clip are
+ * held at its first or last frame, as a clip in a transition holds them.
+ */
+export function getSourceTime(item: TimelineItem, time: number): number {
+  const span = getSourceSpan(item);
+  return Math.min(span.end, span.start + Math.max(0, time - item.start));
+}
+
+const shape = (interpolation: KeyframeInterpolation, progress: number) => {
+  if (interpolation === 'hold') return 0;
+  if (interpolation === 'ease') return progress * progress * (3 - 2 * progress);
+  return progress;
+};
+
+/**
+ * The value of a curve at a source time
+ */
+export function interpolateKeyframes(keyframes: Keyframe[], sourceTime: number): number {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (sourceTime <= first.time) return first.value;
+  if (sourceTime >= last.time) return last.value;
+
+  const index = keyframes.findIndex(keyframe => keyframe.time > sourceTime) - 1;
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const progress = (sourceTime - from.time) / Math.max(KEYFRAME_EPSILON, to.time - from.time);
+  return from.value + (to.value - from.value) * shape(from.interpolation, progress);
+}
+
+/**
+ * A property's value at a timeline time
+ */
+export function getPropertyValue(item: TimelineItem, property: KeyframeProperty, time: number): number {
+  const keyframes = getKeyframes(item, property);
+  return keyframes.length > 0
+    ? interpolateKeyframes(keyframes, getSourceTime(item, time))
+    : getFixedValue(item, property);
+}
+
+/**
+ * A transform with its animated properties set to their values at a time
+ */
+export function animateTransform(item: TimelineItem, transform: ClipTransform, time: number): ClipTransform {
+  const animated = { ...transform };
+  TRANSFORM_KEYFRAME_PROPERTIES.forEach(property => {
+    const keyframes = getKeyframes(item, property);
+    if (keyframes.length > 0) animated[property] = interpolateKeyframes(keyframes, getSourceTime(item, time));
+  });
+  return animated;
+}
+
+const clampValue = (property: KeyframeProperty, value: number) =>
+  Math.min(KEYFRAME_PROPERTIES[property].max, Math.max(KEYFRAME_PROPERTIES[property].min, value));
+
+// An item with a property's keyframes replaced, dropping the list once empty
+const withKeyframes = (item: TimelineItem, property: KeyframeProperty, keyframes: Keyframe[]): TimelineItem => {
+  const next = { ...item.keyframes, [property]: [...keyframes].sort((a, b) => a.time - b.time) };
+  if (keyframes.length === 0) delete next[property];
+  return { ...item, keyframes: Object.keys(next).length > 0 ? next : undefined };
+};
+
+/**
+ * Add a keyframe at a source time, or change the value of the one there
+ */
+export function setKeyframe(item: TimelineItem, property: KeyframeProperty, sourceTime: number, value: number): TimelineItem {
+  const keyframes = getKeyframes(item, property);
+  const existing = keyframes.findIndex(keyframe => Math.abs(keyframe.time - sourceTime) < KEYFRAME_EPSILON);
+  if (existing >= 0) return updateKeyframe(item, property, existing, { value });
+
+  // A new keyframe continues the curve the way the one before it did
+  const previous = [...keyframes].reverse().find(keyframe => keyframe.time < sourceTime);
+  return withKeyframes(item, property, [
+    ...keyframes,
+    { time: sourceTime, value: clampValue(property, value), interpolation: previous?.interpolation ?? 'linear' }
+  ]);
+}
+
+/**
+ * Change a keyframe, keeping it within the clip's source and the list sorted
+ */
+export function updateKeyframe(
+  item: TimelineItem,
+  property: KeyframeProperty,
+  index: number,
+  changes: Partial<Keyframe>
+): TimelineItem {
+  const keyframes = getKeyframes(item, property).map((keyframe, i) => {
+    if (i !== index) return keyframe;
+    const next = { ...keyframe, ...changes };
+    const start = item.trimStart || 0;
+    return {
+      ...next,
+      time: Math.min(start + item.duration, Math.max(start, next.time)),
+      value: clampValue(property, next.value)
+    };
+  });
+  return withKeyframes(item, property, keyframes);
+}
+
+/**
+ * Index of the keyframe at a timeline time, or -1
+ */
+export function findKeyframeAt(item: TimelineItem, property: KeyframeProperty, time: number): number {
+  const sourceTime = getSourceTime(item, time);
+  return getKeyframes(item, property).findIndex(keyframe => Math.abs(keyframe.time - sourceTime) < KEYFRAME_EPSILON);
+}
+
+export function removeKeyframe(item: TimelineItem, property: KeyframeProperty, index: number): TimelineItem {
+  return withKeyframes(item, property, getKeyframes(item, property).filter((_, i) => i !== index));
+}
+
+/**
+ * Remove every keyframe of a property, keeping the value it had at a time as
+ * its fixed value
+ */
+export function clearKeyframes(item: TimelineItem, property: KeyframeProperty, time: number): TimelineItem {
+  return setFixedValue(withKeyframes(item, property, []), property, getPropertyValue(item, property, time));
+}
+
+const setFixedValue = (item: TimelineItem, property: KeyframeProperty, value: number): TimelineItem => {
+  if (property === 'volume') return { ...item, volume: value };
+  // getClipTransform fills in whatever a clip has never set
+  return { ...item, transform: { ...item.transform, [property]: value } as ClipTransform };
+};
+
+/**
+ * Set a property at a timeline time: a keyframe there if it is animated,
+ * otherwise its fixed value. This is what the inspector and sliders edit.
+ */
+export function setPropertyValue(item: TimelineItem, property: KeyframeProperty, time: number, value: number): TimelineItem {
+  return isAnimated(item, property)
+    ? setKeyframe(item, property, getSourceTime(item, time), value)
+    : setFixedValue(item, property, value);
+}
+
+const num = (value: number) => value.toFixed(4);
+
+/**
+ * An ffmpeg expression for the value of a curve, given an expression for the
+ * source time
+ */
+export function keyframeExpression(keyframes: Keyframe[], sourceTime: string): string {
+  const s = `(${sourceTime})`;
+  const last = keyframes[keyframes.length - 1];
+  let expression = num(last.value);
+
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    const p = `((${s}-${num(from.time)})/${num(Math.max(KEYFRAME_EPSILON, to.time - from.time))})`;
+    const change = `(${num(to.value - from.value)})`;
+    const segment = from.interpolation === 'hold'
+      ? num(from.value)
+      : from.interpolation === 'ease'
+        ? `${num(from.value)}+${change}*${p}*${p}*(3-2*${p})`
+        : `${num(from.value)}+${change}*${p}`;
+    expression = `if(lt(${s},${num(to.time)}),${segment},${expression})`;
+  }
+
+  return `if(lt(${s},${num(keyframes[0].time)}),${num(keyframes[0].value)},${expression})`;
+}
+
+/**
+ * An ffmpeg expression for an item's source time, given an expression for
+ * time since the clip started. Times outside the clip are held, as in
+ * `getSourceTime`.
+ */
+export function sourceTimeExpression(item: TimelineItem, clipTime: string): string {
+  return `clip(${clipTime},0,${item.duration.toFixed(3)})+${(item.trimStart || 0).toFixed(3)}`;
+}
@@ -0,0 +1,169 @@
+import { TimelineItem, TimelineMarker } from '@/components/VideoEditor/VideoEditor';
+
+/**
+ * Timeline markers: named, coloured notes on the ruler or on a clip. A marker
+ * with a duration comments on a region rather than a single moment. Ruler
+ * markers can also start chapters, which the export writes into MP4 files and
+ * offers as YouTube-style chapter text.
+ */
+
+export const MARKER_COLORS = ['#D7F266', '#F2A766', '#F26666', '#66C8F2', '#A966F2', '#66F2A0'];
+
+// Markers closer than this share a time, in seconds
+const MARKER_EPSILON = 0.001;
+
+// YouTube only shows chapters when there are enough of them and none is too short
+export const MIN_YOUTUBE_CHAPTERS = 3;
+export const MIN_YOUTUBE_CHAPTER_LENGTH = 10;
+
+export interface Chapter {
+  start: number; // Seconds into the exported video
+  end: number;
+  title: string;
+}
+
+export function createMarker(time: number, existing: TimelineMarker[], changes: Partial<TimelineMarker> = {}): TimelineMarker {
+  return {
+    id: crypto.randomUUID(),
+    time,
+    duration: 0,
+    name: `Marker ${existing.length + 1}`,
+    color: MARKER_COLORS[existing.length % MARKER_COLORS.length],
+    note: '',
+    chapter: false,
+    ...changes
+  };
+}
+
+export const sortMarkers = (markers: TimelineMarker[]): TimelineMarker[] =>
+  [...markers].sort((a, b) => a.time - b.time);
+
+/**
+ * Where a clip marker falls on the timeline
+ */
+export const getClipMarkerTime = (item: TimelineItem, marker: TimelineMarker): number =>
+  item.start + marker.time - (item.trimStart || 0);
+
+/**
+ * A clip's markers that fall within its trimmed part
+ */
+export function getVisibleClipMarkers(item: TimelineItem): TimelineMarker[] {
+  const start = item.trimStart || 0;
+  return (item.markers ?? []).filter(marker =>
+    marker.time >= start - MARKER_EPSILON && marker.time <= start + item.duration + MARKER_EPSILON
+  );
+}
+
+/**
+ * Timeline times of every marker and the end of every region, sorted, for
+ * snapping and for jumping between markers
+ */
+export function getMarkerTimes(markers: TimelineMarker[], items: TimelineItem[]): number[] {
+  const times: number[] = [];
+  const add = (time: number, duration: number) => {
+    times.push(time);
+    if (duration > 0) times.push(time + duration);
+  };
+
+  markers.forEach(marker => add(marker.time, marker.duration));
+  items.forEach(item => {
+    getVisibleClipMarkers(item).forEach(marker => add(getClipMarkerTime(item, marker), marker.duration));
+  });
+
+  return times.sort((a, b) => a - b);
+}
+
+/**
+ * The nearest marker time before or after a time
+ * @returns The time, or null if there is none that way
+ */
+export function findAdjacentMarkerTime(times: number[], time: number, direction: -1 | 1): number | null {
+  const found = direction > 0
+    ? times.find(markerTime => markerTime > time + MARKER_EPSILON)
+    : [...times].reverse().find(markerTime => markerTime < time - MARKER_EPSILON);
+  return found ?? null;
+}
+
+/**
+ * The chapters of an exported stretch of the timeline. A chapter that began
+ * before the stretch carries on from its start, and any lead-in before the
+ * first chapter becomes an "Intro" so the chapters cover the whole video.
+ */
+export function getChapters(markers: TimelineMarker[], range: { start: number; end: number }): Chapter[] {
+  const chapterMarkers = sortMarkers(markers.filter(marker => marker.chapter));
+  const starts: { time: number; title: string }[] = [];
+
+  chapterMarkers.forEach(marker => {
+    if (marker.time >= range.end) return;
+    const time = Math.max(0, marker.time - range.start);
+    // A later marker before the range replaces the one it follows
+    if (starts.length > 0 && starts[starts.length - 1].time === time) starts.pop();
+    starts.push({ time, title: marker.name.trim() || 'Chapter' });
+  });
+
+  if (starts.length === 0) return [];
+  if (starts[0].time > 0) starts.unshift({ time: 0, title: 'Intro' });
+
+  const length = range.end - range.start;
+  return starts.map((start, index) => ({
+    start: start.time,
+    end: index + 1 < starts.length ? starts[index + 1].time : length,
+    title: start.title
+  }));
+}
+
+// FFMETADATA values need their special characters escaped
+const escapeMetadata = (value: string) => value.replace(/[=;#\\\n]/g, character => `\\${character}`);
+
+/**
+ * An FFMETADATA file describing the chapters, for ffmpeg to write into the
+ * exported file
+ */
+export function chaptersToMetadata(chapters: Chapter[]): string {
+  const lines = [';FFMETADATA1'];
+  chapters.forEach(chapter => {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escapeMetadata(chapter.title)}`
+    );
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+const formatChapterTime = (time: number, withHours: boolean) => {
+  const total = Math.floor(time);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, '0');
+  return withHours
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes.toString().padStart(2, '0')}:${seconds}`;
+};
+
+/**
+ * Chapters as the timestamp list YouTube reads from a video description
+ */
+export function chaptersToText(chapters: Chapter[]): string {
+  const withHours = chapters.some(chapter => chapter.start >= 3600);
+  return chapters
+    .map(chapter => `${formatChapterTime(chapter.start, withHours)} ${chapter.title.replace(/\s+/g, ' ')}`)
+    .join('\n');
+}
+
+/**
+ * Reasons YouTube would ignore the chapters
+ */
+export function getChapterWarnings(chapters: Chapter[]): string[] {
+  const warnings: string[] = [];
+  if (chapters.length < MIN_YOUTUBE_CHAPTERS) {
+    warnings.push(`YouTube needs at least ${MIN_YOUTUBE_CHAPTERS} chapters.`);
+  }
+  const short = chapters.filter(chapter => chapter.end - chapter.start < MIN_YOUTUBE_CHAPTER_LENGTH);
+  if (short.length > 0) {
+    warnings.push(`${short.map(chapter => `"${chapter.title}"`).join(', ')} ${short.length === 1 ? 'is' : 'are'} shorter than ${MIN_YOUTUBE_CHAPTER_LENGTH} seconds.`);
+  }
+  return warnings;
+}
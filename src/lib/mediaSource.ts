@@ -0,0 +1,54 @@
+import { getBlobFromIndexedDB } from './groqTTS';
+
+/**
+ * Helpers for timeline media sources.
+ *
+ * Generated audio and imported media use `blob:` URLs tagged with
+ * `#blobId=<id>`. The blob URL dies with the page, but the tag lets us recover
+ * the data from IndexedDB.
+ */
+
+/**
+ * Get the IndexedDB blob id embedded in a media URL, if any
+ */
+export function getBlobId(src: string): string | null {
+  const [, blobId] = src.split('#blobId=');
+  return blobId || null;
+}
+
+/**
+ * Build a media URL for a blob stored in IndexedDB
+ */
+export function createBlobMediaUrl(blob: Blob, blobId: string): string {
+  return `${URL.createObjectURL(blob)}#blobId=${blobId}`;
+}
+
+/**
+ * Fetch the data behind a media URL, falling back to IndexedDB for stored blobs
+ */
+export async function getMediaBlob(src: string): Promise<Blob> {
+  const blobId = getBlobId(src);
+
+  if (blobId) {
+    const stored = await getBlobFromIndexedDB(blobId);
+    if (stored) return stored;
+  }
+
+  const response = await fetch(src.split('#blobId=')[0]);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${src}`);
+  }
+  return response.blob();
+}
+
+/**
+ * Get a URL that can be played right now. Stale blob URLs are recreated from
+ * IndexedDB; everything else is returned untouched.
+ */
+export async function resolveMediaUrl(src: string): Promise<string> {
+  const blobId = getBlobId(src);
+  if (!blobId) return src;
+
+  const stored = await getBlobFromIndexedDB(blobId);
+  return stored ? URL.createObjectURL(stored) : src.split('#blobId=')[0];
+}
@@ -0,0 +1,107 @@
+/**
+ * Master playback clock. Time is read from a shared AudioContext, which
+ * advances with the audio hardware, so the playhead can't drift from what is
+ * heard. Media elements are slaved to the clock rather than the other way round.
+ */
+
+let sharedContext: AudioContext | null = null;
+
+/**
+ * The editor's AudioContext, created on first use
+ */
+export function getAudioContext(): AudioContext | null {
+  if (!sharedContext && typeof window !== 'undefined' && window.AudioContext) {
+    sharedContext = new AudioContext();
+  }
+  return sharedContext;
+}
+
+export class PlaybackClock {
+  private anchorTime = 0; // Timeline time when the clock was last anchored
+  private anchorClock = 0; // Clock reading at that moment, in seconds
+  private rate = 1;
+  private running = false;
+
+  // Seconds from the audio clock while it runs, otherwise from the page clock
+  private now(): number {
+    const context = getAudioContext();
+    return context && context.state === 'running' ? context.currentTime : performance.now() / 1000;
+  }
+
+  /**
+   * Start advancing from a timeline time at a rate (negative plays backwards)
+   */
+  start(time: number, rate = 1) {
+    const context = getAudioContext();
+    if (context && context.state === 'suspended') {
+      // The audio clock starts at a different origin, so re-anchor once it runs
+      context.resume().then(() => {
+        if (this.running) this.seek(this.getTime());
+      }).catch(() => undefined);
+    }
+
+    this.rate = rate;
+    this.running = true;
+    this.seek(time);
+  }
+
+  /**
+   * Stop advancing and return the time the clock stopped at
+   */
+  stop(): number {
+    const time = this.getTime();
+    this.running = false;
+    this.anchorTime = time;
+    return time;
+  }
+
+  seek(time: number) {
+    this.anchorTime = time;
+    this.anchorClock = this.now();
+  }
+
+  getTime(): number {
+    if (!this.running) return this.anchorTime;
+    return this.anchorTime + (this.now() - this.anchorClock) * this.rate;
+  }
+}
+
+// Drift beyond this is corrected by seeking; below it, by adjusting the speed
+const SEEK_THRESHOLD = 0.25;
+// Drift below this (about a frame at 60fps) is left alone
+const DRIFT_TOLERANCE = 1 / 60;
+const MAX_RATE_CORRECTION = 0.05;
+
+/**
+ * Keep a media element on the clock. Paused elements are seeked to the exact
+ * frame; playing ones are nudged faster or slower to catch up, and only
+ * seeked when they're far out.
+ * @returns The play() promise if the element had to be started
+ */
+export function syncMediaElement(
+  element: HTMLMediaElement,
+  targetTime: number,
+  playing: boolean,
+  rate = 1
+): Promise<void> | undefined {
+  const drift = element.currentTime - targetTime;
+
+  if (!playing) {
+    if (!element.paused) element.pause();
+    if (Math.abs(drift) > DRIFT_TOLERANCE) element.currentTime = Math.max(0, targetTime);
+    return undefined;
+  }
+
+  if (Math.abs(drift) > SEEK_THRESHOLD) {
+    element.currentTime = Math.max(0, targetTime);
+    element.playbackRate = rate;
+  } else if (Math.abs(drift) > DRIFT_TOLERANCE) {
+    // Ahead of the clock slows down, behind speeds up
+    const correction = Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, drift));
+    element.playbackRate = rate * (1 - correction);
+  } else if (element.playbackRate !== rate) {
+    element.playbackRate = rate;
+  }
+
+  return element.paused ? element.play() : undefined;
+}
@@ -0,0 +1,147 @@
+import JSZip from 'jszip';
+import { storeBlobInIndexedDB } from './groqTTS';
+import { createBlobMediaUrl, getMediaBlob } from './mediaSource';
+import { ProjectDocument, upgradeProjectDocument } from './projectDocument';
+
+/**
+ * Portable project bundles (.editflow files).
+ *
+ * A bundle is a zip holding `manifest.json` plus every media file referenced
+ * by the timeline under `media/`, so a project can move between browsers
+ * without going through Supabase.
+ */
+
+export const BUNDLE_EXTENSION = '.editflow';
+const BUNDLE_FORMAT = 'editflow-bundle';
+const BUNDLE_VERSION = 1;
+const MEDIA_REF_PREFIX = 'bundle:';
+
+interface BundleMediaEntry {
+  path: string;
+  mimeType: string;
+  originalSrc: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: ProjectDocument;
+  media: BundleMediaEntry[];
+}
+
+/**
+ * Package a project and its media into a bundle
+ * @returns The bundle and the sources that could not be embedded
+ */
+export async function exportProjectBundle(
+  document: ProjectDocument,
+  onProgress?: (ratio: number) => void
+): Promise<{ blob: Blob; missing: string[] }> {
+  const zip = new JSZip();
+  const media: BundleMediaEntry[] = [];
+  const pathsBySrc = new Map<string, string>();
+  const missing: string[] = [];
+
+  const sources = Array.from(new Set(
+    document.items.map(item => item.src).filter((src): src is string => !!src)
+  ));
+
+  for (let i = 0; i < sources.length; i++) {
+    const src = sources[i];
+    try {
+      const blob = await getMediaBlob(src);
+      const path = `media/${i}${getExtension(blob.type, src)}`;
+      zip.file(path, blob);
+      media.push({ path, mimeType: blob.type, originalSrc: src });
+      pathsBySrc.set(src, path);
+    } catch (error) {
+      console.error('Error adding media to bundle:', src, error);
+      missing.push(src);
+    }
+    onProgress?.((i + 1) / (sources.length + 1));
+  }
+
+  // Point embedded items at their bundle entry; anything that couldn't be
+  // fetched keeps its original URL
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      ...document,
+      items: document.items.map(item => {
+        const path = item.src && pathsBySrc.get(item.src);
+        return path ? { ...item, src: `${MEDIA_REF_PREFIX}${path}` } : { ...item };
+      })
+    },
+    media
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  onProgress?.(1);
+
+  return { blob, missing };
+}
+
+/**
+ * Unpack a bundle, storing its media in IndexedDB so the project keeps
+ * working after a page reload
+ */
+export async function importProjectBundle(file: Blob): Promise<ProjectDocument> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file('manifest.json');
+
+  if (!manifestFile) {
+    throw new Error('Not a project bundle: manifest.json is missing');
+  }
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as BundleManifest;
+
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a project bundle');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error('This bundle was created by a newer version of the editor');
+  }
+
+  const urlsByPath = new Map<string, string>();
+
+  for (const entry of manifest.media) {
+    const mediaFile = zip.file(entry.path);
+    if (!mediaFile) {
+      console.warn('Bundle media missing:', entry.path);
+      continue;
+    }
+
+    const data = await mediaFile.async('blob');
+    const blob = new Blob([data], { type: entry.mimeType });
+    const blobId = await storeBlobInIndexedDB(blob, entry.originalSrc);
+    urlsByPath.set(entry.path, createBlobMediaUrl(blob, blobId));
+  }
+
+  const project = upgradeProjectDocument(manifest.project);
+
+  return {
+    ...project,
+    items: project.items.map(item => {
+      if (!item.src?.startsWith(MEDIA_REF_PREFIX)) return item;
+      return { ...item, src: urlsByPath.get(item.src.slice(MEDIA_REF_PREFIX.length)) };
+    })
+  };
+}
+
+function getExtension(mimeType: string, src: string): string {
+  const fromUrl = src.split('#')[0].split('?')[0].match(/\.([a-z0-9]{2,4})$/i);
+  if (fromUrl && !src.startsWith('blob:') && !src.startsWith('data:')) {
+    return `.${fromUrl[1].toLowerCase()}`;
+  }
+
+  const subtype = mimeType.split('/')[1]?.split(';')[0];
+  if (!subtype) return '';
+  if (subtype === 'mpeg') return '.mp3';
+  if (subtype === 'x-wav') return '.wav';
+  return `.${subtype}`;
+}
@@ -0,0 +1,223 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { ProjectSettings, TimelineItem, TimelineMarker, Track } from '@/components/VideoEditor/VideoEditor';
+import { DEFAULT_TRACKS, resolveTrackId } from './tracks';
+import { normalizeProjectSettings } from './projectSettings';
+
+/**
+ * Version of the persisted project document.
+ * Bump this and add an upgrade step below whenever the stored shape of a
+ * project or timeline item changes.
+ */
+export const PROJECT_SCHEMA_VERSION = 4;
+
+/**
+ * Serializable snapshot of everything needed to restore a project
+ */
+export interface ProjectDocument {
+  version: number;
+  name: string;
+  duration: number;
+  items: TimelineItem[];
+  tracks: Track[];
+  settings: ProjectSettings;
+  markers: TimelineMarker[];
+}
+
+type ProjectRow = Tables<'projects'>;
+type TimelineItemRow = Tables<'timeline_items'>;
+type TimelineItemInsert = TablesInsert<'timeline_items'>;
+
+// TimelineItem fields that are stored in dedicated columns. Everything else
+// goes into the `properties` JSON column so new fields survive a round trip
+// without a schema change.
+const COLUMN_FIELDS = [
+  'id',
+  'trackId',
+  'start',
+  'duration',
+  'type',
+  'name',
+  'color',
+  'src',
+  'thumbnail',
+  'volume',
+  'muted',
+  'trimStart',
+  'trimEnd'
+] as const;
+
+/**
+ * Build a project document from editor state
+ */
+export function createProjectDocument({
+  name,
+  duration,
+  items,
+  tracks,
+  settings,
+  markers
+}: Omit<ProjectDocument, 'version'>): ProjectDocument {
+  return {
+    version: PROJECT_SCHEMA_VERSION,
+    name,
+    duration,
+    items: items.map(item => ({ ...item })),
+    tracks: tracks.map(track => ({ ...track })),
+    settings: { ...settings },
+    markers: markers.map(marker => ({ ...marker }))
+  };
+}
+
+/**
+ * Build a project document from a `projects` row and its timeline items
+ */
+export function projectRowToDocument(row: ProjectRow, items: TimelineItem[]): ProjectDocument {
+  return upgradeProjectDocument({
+    name: row.name,
+    duration: row.duration,
+    items,
+    tracks: Array.isArray(row.tracks) ? (row.tracks as unknown as Track[]) : undefined,
+    settings: row.settings && typeof row.settings === 'object' && !Array.isArray(row.settings)
+      ? (row.settings as unknown as ProjectSettings)
+      : undefined,
+    markers: Array.isArray(row.markers) ? (row.markers as unknown as TimelineMarker[]) : undefined
+  });
+}
+
+/**
+ * Convert a timeline item into a `timeline_items` row
+ */
+export function timelineItemToRow(item: TimelineItem, projectId: string): TimelineItemInsert {
+  const properties: Record<string, unknown> = { ...item };
+  COLUMN_FIELDS.forEach(field => delete properties[field]);
+
+  return {
+    project_id: projectId,
+    client_id: item.id,
+    name: item.name,
+    item_type: item.type,
+    track_id: item.trackId,
+    start: item.start,
+    duration: item.duration,
+    color: item.color,
+    src: item.src ?? null,
+    thumbnail: item.thumbnail ?? null,
+    volume: item.volume ?? 1,
+    muted: item.muted ?? false,
+    trim_start: item.trimStart ?? 0,
+    trim_end: item.trimEnd ?? 0,
+    properties: properties as Json,
+    schema_version: PROJECT_SCHEMA_VERSION
+  };
+}
+
+/**
+ * Convert a `timeline_items` row back into a timeline item, upgrading rows
+ * written by older versions of the editor
+ */
+export function rowToTimelineItem(row: TimelineItemRow): TimelineItem {
+  const version = row.schema_version ?? 0;
+  const properties = version >= 1 && row.properties && typeof row.properties === 'object' && !Array.isArray(row.properties)
+    ? (row.properties as Record<string, unknown>)
+    : {};
+
+  // Version 0 rows predate client ids, trims and mute state: fall back to the
+  // row id and neutral defaults
+  return {
+    ...properties,
+    id: row.client_id || row.id,
+    trackId: row.track_id,
+    start: row.start,
+    duration: row.duration,
+    type: row.item_type as TimelineItem['type'],
+    name: row.name,
+    color: row.color || '#3498db',
+    src: row.src ?? undefined,
+    thumbnail: row.thumbnail ?? undefined,
+    volume: row.volume ?? 1,
+    muted: row.muted ?? false,
+    trimStart: row.trim_start ?? 0,
+    trimEnd: row.trim_end ?? 0
+  };
+}
+
+/**
+ * Work out which `timeline_items` rows need writing and which need removing
+ * so that a save only touches what actually changed
+ */
+export function diffTimelineRows(
+  existing: TimelineItemRow[],
+  desired: TimelineItemInsert[]
+): { upserts: TimelineItemInsert[]; deletes: string[] } {
+  const existingByClientId = new Map(existing.map(row => [row.client_id || row.id, row]));
+  const desiredClientIds = new Set(desired.map(row => row.client_id));
+
+  const upserts = desired.filter(row => {
+    const current = existingByClientId.get(row.client_id);
+    if (!current) return true;
+
+    return Object.keys(row).some(key =>
+      stableStringify(row[key as keyof TimelineItemInsert] ?? null) !==
+      stableStringify(current[key as keyof TimelineItemRow] ?? null)
+    );
+  });
+
+  const deletes = existing
+    .filter(row => !desiredClientIds.has(row.client_id || row.id))
+    .map(row => row.id);
+
+  return { upserts, deletes };
+}
+
+// jsonb columns come back with their keys reordered, so compare values with
+// object keys sorted
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Bring a project document of any version up to the current version
+ */
+export function upgradeProjectDocument(document: Partial<ProjectDocument>): ProjectDocument {
+  // Documents before version 2 have no tracks and use the default layout
+  const tracks = (document.tracks && document.tracks.length > 0 ? document.tracks : DEFAULT_TRACKS)
+    .map(track => ({ ...track }));
+
+  // Version 0 documents may lack trims, mute state and volume on items, and
+  // items from the media generators may reference legacy track ids
+  const items = (document.items || []).map(item => {
+    const upgraded = {
+      ...item,
+      volume: item.volume ?? 1,
+      muted: item.muted ?? false,
+      trimStart: item.trimStart ?? 0,
+      trimEnd: item.trimEnd ?? 0
+    };
+
+    return tracks.some(track => track.id === item.trackId)
+      ? upgraded
+      : { ...upgraded, trackId: resolveTrackId(upgraded, tracks) ?? item.trackId };
+  });
+
+  // Documents before version 3 have no settings and use the default 16:9
+  // frame; documents before version 4 have no markers
+  return {
+    version: PROJECT_SCHEMA_VERSION,
+    name: document.name || 'Untitled Project',
+    duration: document.duration ?? 600,
+    items,
+    tracks,
+    settings: normalizeProjectSettings(document.settings),
+    markers: (document.markers || []).map(marker => ({ ...marker }))
+  };
+}
@@ -1,23 +1,38 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { TimelineItem } from '@/components/VideoEditor/VideoEditor';
+import {
+  PROJECT_SCHEMA_VERSION,
+  ProjectDocument,
+  diffTimelineRows,
+  projectRowToDocument,
+  rowToTimelineItem,
+  timelineItemToRow
+} from './projectDocument';
+import { Keymap } from './shortcuts';
 
 export interface Project {
   id?: string;
   name: string;
   duration: number;
   user_id?: string;
+  schema_version?: number;
   created_at?: string;
   updated_at?: string;
 }
 
 /**
- * Save a project to Supabase
+ * Save a project to Supabase.
+ * Updates the existing project in place when `projectId` is given (creating
+ * it under that id if it doesn't exist yet) and only writes the timeline items
+ * that changed since the last save. `updatedAt` lets offline edits keep the
+ * time they were made rather than the time they were synced.
  */
 export async function saveProject(
-  projectName: string,
-  timelineItems: TimelineItem[],
-  duration: number
+  document: ProjectDocument,
+  projectId?: string | null,
+  updatedAt?: string
 ): Promise<{ project: Project; success: boolean; error?: string }> {
   try {
     // First, check if user is authenticated
@@ -25,45 +40,78 @@ export async function saveProject(
     
     if (!user) {
       return {
-        project: { name: projectName, duration },
+        project: { id: projectId ?? undefined, name: document.name, duration: document.duration },
         success: false,
         error: 'User not authenticated. Project saved locally only.'
       };
     }
     
-    // Insert or update project
-    const { data: projectData, error: projectError } = await supabase
-      .from('projects')
-      .insert({
-        name: projectName,
-        duration,
-        user_id: user.id
-      })
-      .select()
-      .single();
-      
-    if (projectError) throw projectError;
+    const projectFields = {
+      name: document.name,
+      duration: document.duration,
+      tracks: document.tracks as unknown as Json,
+      settings: document.settings as unknown as Json,
+      markers: document.markers as unknown as Json,
+      schema_version: PROJECT_SCHEMA_VERSION,
+      updated_at: updatedAt || new Date().toISOString()
+    };
     
-    // Add timeline items
-    if (timelineItems.length > 0) {
-      const timelineItemsToInsert = timelineItems.map(item => ({
-        project_id: projectData.id,
-        name: item.name,
-        item_type: item.type,
-        track_id: item.trackId,
-        start: item.start,
-        duration: item.duration,
-        color: item.color,
-        src: item.src,
-        thumbnail: item.thumbnail,
-        volume: item.volume || 1
-      }));
+    let projectData: Project | null = null;
+    
+    // Update the existing project if it still exists and belongs to this user
+    if (projectId) {
+      const { data, error } = await supabase
+        .from('projects')
+        .update(projectFields)
+        .eq('id', projectId)
+        .eq('user_id', user.id)
+        .select()
+        .maybeSingle();
+        
+      if (error) throw error;
+      projectData = data;
+    }
+    
+    // Otherwise create a new one
+    if (!projectData) {
+      const { data, error } = await supabase
+        .from('projects')
+        .insert({ ...projectFields, id: projectId ?? undefined, user_id: user.id })
+        .select()
+        .single();
+        
+      if (error) throw error;
+      projectData = data;
+    }
+    
+    // Diff timeline items against what is already stored
+    const { data: existingRows, error: existingError } = await supabase
+      .from('timeline_items')
+      .select('*')
+      .eq('project_id', projectData.id);
       
-      const { error: timelineError } = await supabase
+    if (existingError) throw existingError;
+    
+    const { upserts, deletes } = diffTimelineRows(
+      existingRows,
+      document.items.map(item => timelineItemToRow(item, projectData.id))
+    );
+    
+    if (upserts.length > 0) {
+      const { error: upsertError } = await supabase
         .from('timeline_items')
-        .insert(timelineItemsToInsert);
+        .upsert(upserts, { onConflict: 'project_id,client_id' });
         
-      if (timelineError) throw timelineError;
+      if (upsertError) throw upsertError;
+    }
+    
+    if (deletes.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('timeline_items')
+        .delete()
+        .in('id', deletes);
+        
+      if (deleteError) throw deleteError;
     }
     
     return {
@@ -73,67 +121,108 @@ export async function saveProject(
   } catch (error) {
     console.error('Error saving project:', error);
     return {
-      project: { name: projectName, duration },
+      project: { id: projectId ?? undefined, name: document.name, duration: document.duration },
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error saving project'
     };
   }
 }
 
+/**
+ * Check whether a project exists on Supabase and when it was last modified
+ */
+export async function getRemoteProjectState(projectId: string): Promise<{
+  exists: boolean;
+  updatedAt: string | null;
+}> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, updated_at')
+    .eq('id', projectId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  return {
+    exists: !!data,
+    updatedAt: data?.updated_at ?? null
+  };
+}
+
+/**
+ * Why a project could not be loaded
+ */
+export type LoadProjectErrorCode = 'not_authenticated' | 'not_found' | 'forbidden' | 'unknown';
+
 /**
  * Load a project from Supabase
  */
 export async function loadProject(projectId: string): Promise<{
   project: Project | null;
   timelineItems: TimelineItem[];
+  document?: ProjectDocument;
   success: boolean;
   error?: string;
+  errorCode?: LoadProjectErrorCode;
 }> {
+  const failure = (errorCode: LoadProjectErrorCode, error: string) => ({
+    project: null,
+    timelineItems: [],
+    success: false,
+    error,
+    errorCode
+  });
+  
   try {
+    // First, check if user is authenticated
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return failure('not_authenticated', 'User not authenticated');
+    }
+    
     // Get project details
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
       .select('*')
       .eq('id', projectId)
-      .single();
+      .maybeSingle();
       
+    // Malformed ids are rejected by Postgres before any row is looked up
+    if (projectError?.code === '22P02' || (!projectError && !projectData)) {
+      return failure('not_found', 'Project not found');
+    }
+    
     if (projectError) throw projectError;
     
+    if (projectData.user_id !== user.id) {
+      return failure('forbidden', 'This project belongs to another account');
+    }
+    
     // Get timeline items
     const { data: timelineItemsData, error: timelineError } = await supabase
       .from('timeline_items')
       .select('*')
-      .eq('project_id', projectId);
+      .eq('project_id', projectId)
+      .order('start', { ascending: true });
       
     if (timelineError) throw timelineError;
     
-    // Convert to TimelineItem format
-    const timelineItems: TimelineItem[] = timelineItemsData.map(item => ({
-      id: item.id,
-      trackId: item.track_id,
-      start: item.start,
-      duration: item.duration,
-      type: item.item_type as 'video' | 'audio' | 'image',
-      name: item.name,
-      color: item.color || '#3498db',
-      src: item.src,
-      thumbnail: item.thumbnail,
-      volume: item.volume
-    }));
+    // Convert to TimelineItem format, upgrading rows saved by older versions
+    const timelineItems: TimelineItem[] = timelineItemsData.map(rowToTimelineItem);
     
     return {
       project: projectData,
       timelineItems,
+      document: projectRowToDocument(projectData, timelineItems),
       success: true
     };
   } catch (error) {
     console.error('Error loading project:', error);
-    return {
-      project: null,
-      timelineItems: [],
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error loading project'
-    };
+    return failure(
+      'unknown',
+      error instanceof Error ? error.message : 'Unknown error loading project'
+    );
   }
 }
 
@@ -186,11 +275,13 @@ export async function getUserProjects(): Promise<{
 export async function saveUserPreferences({
   theme,
   defaultVolume,
-  timelineScale
+  timelineScale,
+  keymap
 }: {
   theme?: string;
   defaultVolume?: number;
   timelineScale?: number;
+  keymap?: Keymap;
 }): Promise<{ success: boolean; error?: string }> {
   try {
     // First, check if user is authenticated
@@ -214,7 +305,8 @@ export async function saveUserPreferences({
       user_id: user.id,
       theme,
       default_volume: defaultVolume,
-      timeline_scale: timelineScale
+      timeline_scale: timelineScale,
+      keymap: keymap as Json
     };
     
     let error;
@@ -256,6 +348,7 @@ export async function getUserPreferences(): Promise<{
     theme?: string;
     defaultVolume?: number;
     timelineScale?: number;
+    keymap?: Keymap;
   };
   success: boolean;
   error?: string;
@@ -285,7 +378,8 @@ export async function getUserPreferences(): Promise<{
       preferences: data ? {
         theme: data.theme,
         defaultVolume: data.default_volume,
-        timelineScale: data.timeline_scale
+        timelineScale: data.timeline_scale,
+        keymap: (data.keymap as Keymap | null) ?? undefined
       } : {},
       success: true
     };
@@ -0,0 +1,111 @@
+import { ProjectSettings } from '@/components/VideoEditor/VideoEditor';
+import type { PikaAspectRatio } from './falai';
+import { DEFAULT_FPS } from './timecode';
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  fps: DEFAULT_FPS,
+  width: 1920,
+  height: 1080,
+  aspectRatio: '16:9',
+  sampleRate: 48000,
+  backgroundColor: '#000000'
+};
+
+export const FPS_OPTIONS = [23.976, 24, 25, 29.97, 30, 50, 60];
+
+export const SAMPLE_RATE_OPTIONS = [44100, 48000];
+
+// Common frame shapes and their 1080p sizes
+export const ASPECT_RATIO_PRESETS: { ratio: string; label: string; width: number; height: number }[] = [
+  { ratio: '16:9', label: 'Landscape (16:9)', width: 1920, height: 1080 },
+  { ratio: '9:16', label: 'Vertical (9:16)', width: 1080, height: 1920 },
+  { ratio: '1:1', label: 'Square (1:1)', width: 1080, height: 1080 },
+  { ratio: '4:5', label: 'Portrait (4:5)', width: 1080, height: 1350 },
+  { ratio: '4:3', label: 'Classic (4:3)', width: 1440, height: 1080 },
+  { ratio: '21:9', label: 'Cinematic (21:9)', width: 2560, height: 1080 }
+];
+
+// Shapes social exports can be reframed to, the same ones video generation offers
+export const SOCIAL_ASPECT_RATIOS: { ratio: PikaAspectRatio; label: string }[] = [
+  { ratio: '9:16', label: 'Vertical 9:16 (Shorts, Reels, TikTok)' },
+  { ratio: '1:1', label: 'Square 1:1 (Feed)' },
+  { ratio: '4:5', label: 'Portrait 4:5 (Feed)' },
+  { ratio: '16:9', label: 'Landscape 16:9' },
+  { ratio: '5:4', label: 'Landscape 5:4' },
+  { ratio: '3:2', label: 'Landscape 3:2' },
+  { ratio: '2:3', label: 'Portrait 2:3' }
+];
+
+const MIN_DIMENSION = 16;
+const MAX_DIMENSION = 7680;
+
+// Encoders need even frame sizes
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Settings with missing or invalid values replaced by defaults, as stored
+ * projects may predate settings or have been edited by hand
+ */
+export function normalizeProjectSettings(settings?: Partial<ProjectSettings> | null): ProjectSettings {
+  const merged = { ...DEFAULT_PROJECT_SETTINGS, ...settings };
+  const clampDimension = (value: number, fallback: number) =>
+    Number.isFinite(value) && value > 0 ? toEven(Math.min(MAX_DIMENSION, Math.max(MIN_DIMENSION, value))) : fallback;
+
+  return {
+    fps: Number.isFinite(merged.fps) && merged.fps > 0 ? merged.fps : DEFAULT_PROJECT_SETTINGS.fps,
+    width: clampDimension(merged.width, DEFAULT_PROJECT_SETTINGS.width),
+    height: clampDimension(merged.height, DEFAULT_PROJECT_SETTINGS.height),
+    aspectRatio: merged.aspectRatio || DEFAULT_PROJECT_SETTINGS.aspectRatio,
+    sampleRate: SAMPLE_RATE_OPTIONS.includes(merged.sampleRate) ? merged.sampleRate : DEFAULT_PROJECT_SETTINGS.sampleRate,
+    backgroundColor: /^#[0-9a-f]{6}$/i.test(merged.backgroundColor)
+      ? merged.backgroundColor
+      : DEFAULT_PROJECT_SETTINGS.backgroundColor
+  };
+}
+
+/**
+ * Name the preset a frame size matches, or "custom"
+ */
+export function getAspectRatioName(width: number, height: number): string {
+  const preset = ASPECT_RATIO_PRESETS.find(({ width: w, height: h }) => Math.abs(w / h - width / height) < 0.01);
+  return preset ? preset.ratio : 'custom';
+}
+
+/**
+ * The project frame scaled so its shorter side is the given number of
+ * pixels, e.g. 720 gives 1280x720 for 16:9 and 720x1280 for 9:16
+ */
+export function scaleFrameToShortSide(settings: ProjectSettings, shortSide: number): { width: number; height: number } {
+  const factor = shortSide / Math.min(settings.width, settings.height);
+  return { width: toEven(settings.width * factor), height: toEven(settings.height * factor) };
+}
+
+/**
+ * Width divided by height of a ratio such as "9:16"
+ */
+export function parseAspectRatio(ratio: string): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : 16 / 9;
+}
+
+/**
+ * A frame of the given aspect ratio whose shorter side is the given number of pixels
+ */
+export function frameForAspectRatio(ratio: string, shortSide: number): { width: number; height: number } {
+  const aspect = parseAspectRatio(ratio);
+  return aspect >= 1
+    ? { width: toEven(shortSide * aspect), height: toEven(shortSide) }
+    : { width: toEven(shortSide), height: toEven(shortSide / aspect) };
+}
+
+/**
+ * The largest frame with the same shape that fits inside a bounding box
+ */
+export function fitFrameInside(
+  frame: { width: number; height: number },
+  maxWidth: number,
+  maxHeight: number
+): { width: number; height: number } {
+  const factor = Math.min(1, maxWidth / frame.width, maxHeight / frame.height);
+  return { width: toEven(frame.width * factor), height: toEven(frame.height * factor) };
+}
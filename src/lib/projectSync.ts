@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import { localProjectsDB, LocalProject } from '@/services/LocalProjectsDB';
+import { getRemoteProjectState, loadProject, saveProject } from './projectService';
+import { ProjectDocument } from './projectDocument';
+
+export type ProjectSyncResult =
+  | { status: 'offline' | 'unchanged' | 'pushed' | 'deleted' }
+  | { status: 'pulled'; document: ProjectDocument; conflict: boolean }
+  | { status: 'error'; error: string };
+
+/**
+ * Sync one locally stored project with Supabase.
+ *
+ * Conflicts are resolved last-writer-wins: when both copies changed since the
+ * last sync, whichever has the later `updated_at` replaces the other.
+ */
+export async function syncLocalProject(projectId: string): Promise<ProjectSyncResult> {
+  if (!navigator.onLine) return { status: 'offline' };
+  
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { status: 'offline' };
+  
+  const local = await localProjectsDB.getProject(projectId);
+  if (!local) return { status: 'unchanged' };
+  
+  try {
+    const remote = await getRemoteProjectState(projectId);
+    
+    // Previously synced, untouched here and gone from Supabase: it was
+    // deleted from another device
+    if (!remote.exists && local.remoteUpdatedAt && !local.dirty) {
+      await localProjectsDB.deleteProject(projectId);
+      return { status: 'deleted' };
+    }
+    
+    const remoteChanged = remote.exists && remote.updatedAt !== local.remoteUpdatedAt;
+    
+    if (!remoteChanged) {
+      return local.dirty ? pushProject(local) : { status: 'unchanged' };
+    }
+    
+    if (local.dirty && isAfter(local.updatedAt, remote.updatedAt)) {
+      return pushProject(local);
+    }
+    
+    return pullProject(projectId, local.dirty);
+  } catch (error) {
+    console.error('Error syncing project:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error syncing project'
+    };
+  }
+}
+
+/**
+ * Push every project with unsynced local edits
+ * @param skipIds Projects to leave alone, such as one synced elsewhere
+ */
+export async function syncAllLocalProjects(skipIds: string[] = []): Promise<Map<string, ProjectSyncResult>> {
+  const results = new Map<string, ProjectSyncResult>();
+  const dirtyProjects = await localProjectsDB.getDirtyProjects();
+  
+  for (const project of dirtyProjects.filter(project => !skipIds.includes(project.id))) {
+    results.set(project.id, await syncLocalProject(project.id));
+  }
+  
+  return results;
+}
+
+async function pushProject(local: LocalProject): Promise<ProjectSyncResult> {
+  const result = await saveProject(local.document, local.id, local.updatedAt);
+  
+  if (!result.success) {
+    return { status: 'error', error: result.error || 'Unknown error saving project' };
+  }
+  
+  await localProjectsDB.markSynced(local.id, result.project.updated_at || local.updatedAt, local.updatedAt);
+  return { status: 'pushed' };
+}
+
+async function pullProject(projectId: string, conflict: boolean): Promise<ProjectSyncResult> {
+  const result = await loadProject(projectId);
+  
+  if (!result.success || !result.project || !result.document) {
+    return { status: 'error', error: result.error || 'Unknown error loading project' };
+  }
+  
+  const { document } = result;
+  await localProjectsDB.putSyncedProject(projectId, document, result.project.updated_at || new Date().toISOString());
+  
+  return { status: 'pulled', document, conflict };
+}
+
+function isAfter(a: string | null, b: string | null): boolean {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
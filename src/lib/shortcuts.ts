@@ -0,0 +1,203 @@
+/**
+ * Central registry of editor keyboard shortcuts. Key combinations are written
+ * as modifiers followed by a key, e.g. "Ctrl+Shift+Z" or "Alt+ArrowLeft".
+ * Ctrl also matches the Cmd key on macOS. Keys are named after their physical
+ * position (US layout), so Shift+/ stays "Shift+/" rather than "?".
+ */
+
+export type ShortcutId =
+  | 'play-pause'
+  | 'shuttle-reverse'
+  | 'shuttle-stop'
+  | 'shuttle-forward'
+  | 'set-in'
+  | 'set-out'
+  | 'clear-in-out'
+  | 'frame-back'
+  | 'frame-forward'
+  | 'go-to-start'
+  | 'go-to-end'
+  | 'previous-marker'
+  | 'next-marker'
+  | 'undo'
+  | 'redo'
+  | 'copy'
+  | 'paste'
+  | 'delete'
+  | 'split'
+  | 'select-all'
+  | 'deselect'
+  | 'nudge-left'
+  | 'nudge-right'
+  | 'trim-start-shorten'
+  | 'trim-start-extend'
+  | 'trim-end-shorten'
+  | 'trim-end-extend'
+  | 'add-marker'
+  | 'add-clip-marker'
+  | 'tool-select'
+  | 'tool-razor'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'show-shortcuts';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  group: 'Playback' | 'Editing' | 'Tools' | 'View';
+  keys: string[];
+  shiftForLarger?: boolean; // Holding Shift makes the step bigger instead of being part of the combination
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'play-pause', label: 'Play / pause', group: 'Playback', keys: ['Space'] },
+  { id: 'shuttle-reverse', label: 'Play backwards (press again to speed up)', group: 'Playback', keys: ['J'] },
+  { id: 'shuttle-stop', label: 'Stop', group: 'Playback', keys: ['K'] },
+  { id: 'shuttle-forward', label: 'Play forwards (press again to speed up)', group: 'Playback', keys: ['L'] },
+  { id: 'set-in', label: 'Set in point', group: 'Playback', keys: ['I'] },
+  { id: 'set-out', label: 'Set out point', group: 'Playback', keys: ['O'] },
+  { id: 'clear-in-out', label: 'Clear in and out points', group: 'Playback', keys: ['Alt+X'] },
+  { id: 'frame-back', label: 'Previous frame (Shift: 1 second)', group: 'Playback', keys: ['ArrowLeft'], shiftForLarger: true },
+  { id: 'frame-forward', label: 'Next frame (Shift: 1 second)', group: 'Playback', keys: ['ArrowRight'], shiftForLarger: true },
+  { id: 'go-to-start', label: 'Go to start', group: 'Playback', keys: ['Home'] },
+  { id: 'go-to-end', label: 'Go to end', group: 'Playback', keys: ['End'] },
+  { id: 'previous-marker', label: 'Previous marker', group: 'Playback', keys: ['Ctrl+Shift+M'] },
+  { id: 'next-marker', label: 'Next marker', group: 'Playback', keys: ['Shift+M'] },
+  { id: 'undo', label: 'Undo', group: 'Editing', keys: ['Ctrl+Z'] },
+  { id: 'redo', label: 'Redo', group: 'Editing', keys: ['Ctrl+Y', 'Ctrl+Shift+Z'] },
+  { id: 'copy', label: 'Copy selected clips', group: 'Editing', keys: ['Ctrl+C'] },
+  { id: 'paste', label: 'Paste at playhead', group: 'Editing', keys: ['Ctrl+V'] },
+  { id: 'delete', label: 'Delete selected clips', group: 'Editing', keys: ['Delete', 'Backspace'] },
+  { id: 'split', label: 'Split at playhead', group: 'Editing', keys: ['S'] },
+  { id: 'select-all', label: 'Select all clips', group: 'Editing', keys: ['Ctrl+A'] },
+  { id: 'deselect', label: 'Clear selection', group: 'Editing', keys: ['Escape'] },
+  { id: 'nudge-left', label: 'Nudge clips left (Shift: 1 second)', group: 'Editing', keys: ['Alt+ArrowLeft'], shiftForLarger: true },
+  { id: 'nudge-right', label: 'Nudge clips right (Shift: 1 second)', group: 'Editing', keys: ['Alt+ArrowRight'], shiftForLarger: true },
+  { id: 'trim-start-shorten', label: 'Trim clip start later', group: 'Editing', keys: ['['], shiftForLarger: true },
+  { id: 'trim-start-extend', label: 'Extend clip start earlier', group: 'Editing', keys: [']'], shiftForLarger: true },
+  { id: 'trim-end-shorten', label: 'Trim clip end earlier', group: 'Editing', keys: [','], shiftForLarger: true },
+  { id: 'trim-end-extend', label: 'Extend clip end later', group: 'Editing', keys: ['.'], shiftForLarger: true },
+  { id: 'add-marker', label: 'Add marker at playhead', group: 'Editing', keys: ['M'] },
+  { id: 'add-clip-marker', label: 'Add marker to selected clip at playhead', group: 'Editing', keys: ['Alt+M'] },
+  { id: 'tool-select', label: 'Select tool', group: 'Tools', keys: ['V'] },
+  { id: 'tool-razor', label: 'Razor tool', group: 'Tools', keys: ['C'] },
+  { id: 'zoom-in', label: 'Zoom timeline in', group: 'View', keys: ['=', 'Shift+='] },
+  { id: 'zoom-out', label: 'Zoom timeline out', group: 'View', keys: ['-'] },
+  { id: 'show-shortcuts', label: 'Show keyboard shortcuts', group: 'View', keys: ['Shift+/'] }
+];
+
+// Remapped shortcuts; anything missing uses its default keys
+export type Keymap = Partial<Record<ShortcutId, string[]>>;
+
+export type ResolvedKeymap = Record<ShortcutId, string[]>;
+
+export const resolveKeymap = (overrides: Keymap = {}): ResolvedKeymap =>
+  Object.fromEntries(
+    SHORTCUTS.map(shortcut => [shortcut.id, overrides[shortcut.id] ?? shortcut.keys])
+  ) as ResolvedKeymap;
+
+// Physical keys with a fixed name regardless of Shift
+const CODE_NAMES: Record<string, string> = {
+  Space: 'Space',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  Backquote: '`',
+  NumpadAdd: '=',
+  NumpadSubtract: '-'
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+/**
+ * Name the key combination of a keyboard event
+ * @returns The combination, or null for a bare modifier key press
+ */
+export function getKeyCombo(
+  e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>,
+  withShift = true
+): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  let key = CODE_NAMES[e.code];
+  if (!key) {
+    if (e.code.startsWith('Key')) key = e.code.slice(3);
+    else if (e.code.startsWith('Digit')) key = e.code.slice(5);
+    else key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  }
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && withShift) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/**
+ * Find the shortcut a keyboard event triggers, among those being listened for
+ */
+export function matchShortcut(
+  e: KeyboardEvent,
+  keymap: ResolvedKeymap,
+  candidates: ShortcutId[]
+): ShortcutId | null {
+  const combo = getKeyCombo(e);
+  const comboWithoutShift = getKeyCombo(e, false);
+  if (!combo) return null;
+
+  // An exact match wins over treating Shift as a step modifier
+  const exact = candidates.find(id => keymap[id].includes(combo));
+  if (exact) return exact;
+
+  return candidates.find(id =>
+    SHORTCUTS.find(shortcut => shortcut.id === id)?.shiftForLarger &&
+    keymap[id].includes(comboWithoutShift)
+  ) ?? null;
+}
+
+/**
+ * The shortcut already using a key combination, if any
+ */
+export function findShortcutUsing(keymap: ResolvedKeymap, combo: string): ShortcutId | null {
+  return SHORTCUTS.find(shortcut => keymap[shortcut.id].includes(combo))?.id ?? null;
+}
+
+/**
+ * Whether a key press is meant for a text field rather than the editor
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    element.isContentEditable
+  );
+};
+
+/**
+ * Show a combination the way it's typed on the current platform
+ */
+export const formatKeyCombo = (combo: string): string => {
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+  return combo
+    .split('+')
+    .map(part => {
+      if (part === 'Ctrl') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+      if (part === 'ArrowLeft') return '←';
+      if (part === 'ArrowRight') return '→';
+      if (part === 'ArrowUp') return '↑';
+      if (part === 'ArrowDown') return '↓';
+      return part;
+    })
+    .join(isMac ? '' : '+');
+};
@@ -0,0 +1,193 @@
+import { ClipText, ClipTransform, TimelineItem } from '@/components/VideoEditor/VideoEditor';
+import { DEFAULT_TRANSFORM, FrameSize, getClipTransform } from './compositing';
+import { isTransformAnimated } from './keyframes';
+
+/**
+ * Text clips: titles, lower thirds and callouts drawn over the picture.
+ *
+ * Text is drawn with the canvas API both in the preview and for the export,
+ * where each text clip becomes a transparent frame-sized image that ffmpeg
+ * overlays, so exported titles use the same fonts and layout as the preview.
+ * Sizes are fractions of the frame height so text looks the same at any
+ * resolution; the clip's transform moves, scales, rotates and fades it, and
+ * can be animated like any other clip's.
+ */
+
+export const DEFAULT_TEXT: ClipText = {
+  content: 'Your text',
+  fontFamily: 'Inter',
+  fontSize: 0.08,
+  bold: true,
+  italic: false,
+  color: '#ffffff',
+  align: 'center',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  shadowColor: '#000000',
+  shadowBlur: 0.15,
+  boxColor: '#000000',
+  boxOpacity: 0
+};
+
+export const TEXT_FONTS = [
+  'Inter',
+  'Arial',
+  'Helvetica',
+  'Verdana',
+  'Trebuchet MS',
+  'Georgia',
+  'Times New Roman',
+  'Courier New',
+  'Impact'
+];
+
+// Default length of a new text clip, in seconds
+export const DEFAULT_TEXT_DURATION = 5;
+
+const LINE_HEIGHT = 1.2; // Multiple of the font size
+const BOX_PADDING = 0.35; // Multiple of the font size
+
+export interface TextPreset {
+  name: string;
+  description: string;
+  text: Partial<ClipText>;
+  transform?: Partial<ClipTransform>;
+}
+
+export const TEXT_PRESETS: TextPreset[] = [
+  {
+    name: 'Title',
+    description: 'Large centred heading',
+    text: { content: 'Title', fontSize: 0.12 }
+  },
+  {
+    name: 'Lower third',
+    description: 'Name and role in a box, bottom left',
+    text: { content: 'Name\nRole', fontSize: 0.05, align: 'left', shadowBlur: 0, boxOpacity: 0.6 },
+    transform: { x: -0.3, y: 0.33 }
+  },
+  {
+    name: 'Callout',
+    description: 'Outlined caption to point something out',
+    text: { content: 'Look here!', fontSize: 0.07, color: '#d7f266', strokeWidth: 0.12, shadowBlur: 0 },
+    transform: { y: -0.3 }
+  },
+  {
+    name: 'Subtitle',
+    description: 'Plain caption along the bottom',
+    text: { content: 'Subtitle', fontSize: 0.045, bold: false, shadowBlur: 0, boxOpacity: 0.5 },
+    transform: { y: 0.4 }
+  }
+];
+
+/**
+ * The text of an item with defaults filled in
+ */
+export function getClipText(item: TimelineItem): ClipText {
+  return { ...DEFAULT_TEXT, ...item.text };
+}
+
+/**
+ * A new text clip from a preset, starting at a timeline position
+ */
+export function createTextItem(preset: TextPreset, start: number, trackId: string): TimelineItem {
+  const text = { ...DEFAULT_TEXT, ...preset.text };
+  return {
+    id: `text-${Date.now()}`,
+    trackId,
+    start,
+    duration: DEFAULT_TEXT_DURATION,
+    type: 'text',
+    name: text.content.split('\n')[0] || preset.name,
+    color: 'bg-purple-400/70',
+    text,
+    transform: { ...DEFAULT_TRANSFORM, ...preset.transform }
+  };
+}
+
+// CSS font shorthand for a text style at a size in pixels
+const getFont = (text: ClipText, size: number) =>
+  `${text.italic ? 'italic ' : ''}${text.bold ? 'bold ' : ''}${size}px "${text.fontFamily}", sans-serif`;
+
+/**
+ * Draw a text layer onto a canvas the size of the frame
+ */
+export function drawTextLayer(ctx: CanvasRenderingContext2D, text: ClipText, transform: ClipTransform): void {
+  if (!text.content.trim() || transform.opacity <= 0) return;
+
+  const { width, height } = ctx.canvas;
+  const fontSize = text.fontSize * height;
+  const lines = text.content.split('\n');
+  const opacity = ctx.globalAlpha * Math.min(1, transform.opacity);
+
+  ctx.save();
+  ctx.translate(width / 2 + transform.x * width, height / 2 + transform.y * height);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.scale(transform.scale, transform.scale);
+  ctx.font = getFont(text, fontSize);
+  ctx.textAlign = text.align;
+  ctx.textBaseline = 'middle';
+
+  // Lines are aligned within the block, and the block is centred on the position
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const blockHeight = lineHeight * lines.length;
+  const x = text.align === 'left' ? -blockWidth / 2 : text.align === 'right' ? blockWidth / 2 : 0;
+
+  if (text.boxOpacity > 0) {
+    const padding = fontSize * BOX_PADDING;
+    ctx.globalAlpha = opacity * Math.min(1, text.boxOpacity);
+    ctx.fillStyle = text.boxColor;
+    ctx.fillRect(-blockWidth / 2 - padding, -blockHeight / 2 - padding, blockWidth + padding * 2, blockHeight + padding * 2);
+  }
+  ctx.globalAlpha = opacity;
+
+  // Shadows ignore the canvas transform, so they are sized in frame pixels
+  const shadowBlur = text.shadowBlur * fontSize * transform.scale;
+
+  lines.forEach((line, index) => {
+    const y = -blockHeight / 2 + lineHeight * (index + 0.5);
+
+    ctx.shadowColor = text.shadowColor;
+    ctx.shadowBlur = shadowBlur;
+    ctx.shadowOffsetX = shadowBlur / 3;
+    ctx.shadowOffsetY = shadowBlur / 3;
+
+    if (text.strokeWidth > 0) {
+      ctx.lineWidth = text.strokeWidth * fontSize;
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = text.strokeColor;
+      ctx.strokeText(line, x, y);
+      ctx.shadowColor = 'transparent'; // One shadow, behind the outline
+    }
+
+    ctx.fillStyle = text.color;
+    ctx.fillText(line, x, y);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Render a text clip as a transparent PNG the size of the frame. A clip with
+ * an animated transform is drawn centred and untransformed, for the export to
+ * move it frame by frame.
+ */
+export async function renderTextImage(item: TimelineItem, frame: FrameSize): Promise<Blob> {
+  const text = getClipText(item);
+
+  // Web fonts load on first use; wait so the first export doesn't fall back
+  await document.fonts?.load(getFont(text, Math.round(text.fontSize * frame.height))).catch(() => undefined);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  drawTextLayer(ctx, text, isTransformAnimated(item) ? DEFAULT_TRANSFORM : getClipTransform(item));
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render text')), 'image/png');
+  });
+}
@@ -0,0 +1,38 @@
+import { TimelineItem } from '@/components/VideoEditor/VideoEditor';
+
+/**
+ * Frame-based time helpers. The playhead, timecode display and export all
+ * round through these so they land on the same frame.
+ */
+
+export const DEFAULT_FPS = 30;
+
+// Round a time to the start of the nearest frame
+export const snapToFrame = (time: number, fps: number): number => Math.round(time * fps) / fps;
+
+/**
+ * Format a time as HH:MM:SS:FF
+ */
+export function formatTimecode(time: number, fps: number): string {
+  const totalFrames = Math.max(0, Math.round(time * fps));
+  const frames = totalFrames % Math.round(fps);
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames
+  ].map(pad).join(':');
+}
+
+/**
+ * Align a clip's position, length and source offset to whole frames
+ */
+export const snapItemToFrames = (item: TimelineItem, fps: number): TimelineItem => ({
+  ...item,
+  start: snapToFrame(item.start, fps),
+  duration: Math.max(1 / fps, snapToFrame(item.duration, fps)),
+  trimStart: item.trimStart ? snapToFrame(item.trimStart, fps) : item.trimStart
+});
@@ -0,0 +1,373 @@
+import { TimelineItem } from '@/components/VideoEditor/VideoEditor';
+
+/**
+ * Pure edit operations on timeline items. Each returns a new item list so the
+ * editor can apply it in a single state update (and a single undo step).
+ */
+
+// Shortest piece a split is allowed to leave behind, in seconds
+const MIN_SPLIT_DURATION = 0.1;
+// Shortest clip a trim is allowed to leave, in seconds
+const MIN_TRIMMED_DURATION = 0.5;
+
+/**
+ * The part of an item's source that plays, in source seconds. A clip plays
+ * `duration` seconds from `trimStart`; `trimEnd` only records how much source
+ * is left after that, so trimming the end means shortening the clip. Export
+ * and preview both play exactly this span.
+ */
+export function getSourceSpan(item: TimelineItem): { start: number; end: number } {
+  const start = item.trimStart || 0;
+  return { start, end: start + item.duration };
+}
+
+/**
+ * Set how much of an item's source is trimmed off one end. Trimming the head
+ * keeps the clip's end where it is; trimming the tail keeps its start.
+ */
+export function setItemTrim(item: TimelineItem, edge: 'start' | 'end', value: number): TimelineItem {
+  const trim = (edge === 'start' ? item.trimStart : item.trimEnd) || 0;
+  // Extending the head can't go before the start of the timeline
+  const earliest = edge === 'start' ? -Math.min(trim, item.start) : -trim;
+  const delta = Math.min(item.duration - MIN_TRIMMED_DURATION, Math.max(earliest, value - trim));
+
+  return edge === 'start'
+    ? { ...item, start: item.start + delta, duration: item.duration - delta, trimStart: trim + delta }
+    : { ...item, duration: item.duration - delta, trimEnd: trim + delta };
+}
+
+/**
+ * Move an item's end edge to give it a new duration. Video and audio trim or
+ * restore the tail of their source, so they can't run past its end; images
+ * and text have no source length and stretch freely.
+ */
+export function setItemDuration(item: TimelineItem, duration: number): TimelineItem {
+  if (item.type !== 'video' && item.type !== 'audio') {
+    return { ...item, duration: Math.max(MIN_TRIMMED_DURATION, duration) };
+  }
+  return setItemTrim(item, 'end', (item.trimEnd || 0) + item.duration - duration);
+}
+
+/**
+ * Split an item in two at a timeline position
+ * @returns The left and right halves, or null if the time is not inside the item
+ */
+export function splitItemAt(item: TimelineItem, time: number, newId: string): [TimelineItem, TimelineItem] | null {
+  const offset = time - item.start;
+  if (offset < MIN_SPLIT_DURATION || item.duration - offset < MIN_SPLIT_DURATION) {
+    return null;
+  }
+
+  // The source keeps playing continuously across the cut: the left half
+  // gives up the tail of its source, the right half skips the head
+  const left: TimelineItem = {
+    ...item,
+    duration: offset,
+    trimEnd: (item.trimEnd || 0) + (item.duration - offset),
+    fadeOut: undefined // Fades stay at the outer ends
+  };
+  const right: TimelineItem = {
+    ...item,
+    id: newId,
+    start: time,
+    duration: item.duration - offset,
+    trimStart: (item.trimStart || 0) + offset,
+    transitionIn: undefined, // The halves join seamlessly
+    fadeIn: undefined
+  };
+
+  return [left, right];
+}
+
+/**
+ * Split every matching item that spans a timeline position
+ * @returns The new item list and how many items were split
+ */
+export function splitItemsAt(
+  items: TimelineItem[],
+  time: number,
+  shouldSplit: (item: TimelineItem) => boolean = () => true
+): { items: TimelineItem[]; splitCount: number } {
+  let splitCount = 0;
+
+  const result = items.flatMap(item => {
+    if (!shouldSplit(item)) return [item];
+
+    const halves = splitItemAt(item, time, crypto.randomUUID());
+    if (!halves) return [item];
+
+    splitCount++;
+    return halves;
+  });
+
+  return { items: result, splitCount };
+}
+
+/**
+ * How far ripple edits reach: nowhere, the edited clip's track, or every track
+ */
+export type RippleMode = 'off' | 'track' | 'all';
+
+// Tolerance when comparing clip edges, in seconds
+const EDGE_EPSILON = 0.001;
+
+/**
+ * Move every clip that starts at or after a time by the same amount. Clips
+ * on locked tracks never move. A negative shift is limited so that no clip is
+ * pulled over the one before it on its track, or before zero.
+ */
+export function rippleShift(
+  items: TimelineItem[],
+  from: number,
+  delta: number,
+  trackId: string,
+  mode: RippleMode,
+  lockedTrackIds: Set<string> = new Set(),
+  excludeId?: string
+): TimelineItem[] {
+  if (mode === 'off' || delta === 0) return items;
+
+  const isAffected = (item: TimelineItem) =>
+    item.id !== excludeId &&
+    item.start >= from - EDGE_EPSILON &&
+    !lockedTrackIds.has(item.trackId) &&
+    (mode === 'all' || item.trackId === trackId);
+
+  let shift = delta;
+  if (shift < 0) {
+    items.filter(isAffected).forEach(item => {
+      const previousEnd = items
+        .filter(other => other.trackId === item.trackId && !isAffected(other) && other.start < item.start)
+        .reduce((end, other) => Math.max(end, other.start + other.duration), 0);
+      shift = Math.max(shift, previousEnd - item.start);
+    });
+  }
+
+  return items.map(item => isAffected(item) ? { ...item, start: item.start + shift } : item);
+}
+
+/**
+ * Remove a clip and pull the clips after it back into the space it left
+ */
+export function rippleDelete(
+  items: TimelineItem[],
+  id: string,
+  mode: RippleMode,
+  lockedTrackIds?: Set<string>
+): TimelineItem[] {
+  const removed = items.find(item => item.id === id);
+  if (!removed) return items;
+
+  const remaining = items.filter(item => item.id !== id);
+  return rippleShift(
+    remaining,
+    removed.start + removed.duration,
+    -removed.duration,
+    removed.trackId,
+    mode,
+    lockedTrackIds
+  );
+}
+
+/**
+ * Replace a clip whose end has moved, shifting the clips after it by the
+ * same amount
+ */
+export function rippleTrim(
+  items: TimelineItem[],
+  updated: TimelineItem,
+  mode: RippleMode,
+  lockedTrackIds?: Set<string>
+): TimelineItem[] {
+  const previous = items.find(item => item.id === updated.id);
+  if (!previous) return items;
+
+  const previousEnd = previous.start + previous.duration;
+  const replaced = items.map(item => item.id === updated.id ? updated : item);
+
+  return rippleShift(
+    replaced,
+    previousEnd,
+    updated.start + updated.duration - previousEnd,
+    updated.trackId,
+    mode,
+    lockedTrackIds,
+    updated.id
+  );
+}
+
+/**
+ * Insert a clip at its start time, cutting any clip it lands inside and
+ * pushing everything after it along
+ */
+export function rippleInsert(
+  items: TimelineItem[],
+  inserted: TimelineItem,
+  mode: RippleMode,
+  lockedTrackIds?: Set<string>
+): TimelineItem[] {
+  const { items: cut } = splitItemsAt(items, inserted.start, item => item.trackId === inserted.trackId);
+  const shifted = rippleShift(cut, inserted.start, inserted.duration, inserted.trackId, mode, lockedTrackIds);
+  return [...shifted, inserted];
+}
+
+/**
+ * Butt every clip on a track up against the one before it, starting at zero
+ */
+export function closeTrackGaps(items: TimelineItem[], trackId: string): TimelineItem[] {
+  let cursor = 0;
+  const packed = new Map<string, number>();
+
+  items
+    .filter(item => item.trackId === trackId)
+    .sort((a, b) => a.start - b.start)
+    .forEach(item => {
+      packed.set(item.id, cursor);
+      cursor += item.duration;
+    });
+
+  return items.map(item => packed.has(item.id) ? { ...item, start: packed.get(item.id)! } : item);
+}
+
+/**
+ * Add the clips linked to any of the given clips
+ */
+export function getLinkedIds(items: TimelineItem[], ids: string[]): string[] {
+  const groups = new Set(
+    items.filter(item => ids.includes(item.id) && item.linkGroupId).map(item => item.linkGroupId)
+  );
+  const linked = items.filter(item => item.linkGroupId && groups.has(item.linkGroupId)).map(item => item.id);
+  return Array.from(new Set([...ids, ...linked]));
+}
+
+/**
+ * Link clips so they are selected, moved, trimmed and deleted together.
+ * Groups the clips already belong to are merged into the new one.
+ */
+export function linkItems(items: TimelineItem[], ids: string[]): TimelineItem[] {
+  const memberIds = new Set(getLinkedIds(items, ids));
+  const linkGroupId = crypto.randomUUID();
+  return items.map(item => memberIds.has(item.id) ? { ...item, linkGroupId } : item);
+}
+
+/**
+ * Break the links of every group the given clips belong to
+ */
+export function unlinkItems(items: TimelineItem[], ids: string[]): TimelineItem[] {
+  const memberIds = new Set(getLinkedIds(items, ids));
+  return items.map(item => {
+    if (!memberIds.has(item.id)) return item;
+    const { linkGroupId, ...unlinked } = item;
+    return unlinked;
+  });
+}
+
+/**
+ * Move clips by the same amount of time
+ * @returns The new item list, or null if a clip would start before zero or
+ * overlap a clip that isn't moving
+ */
+export function moveItems(items: TimelineItem[], ids: string[], delta: number): TimelineItem[] | null {
+  const moving = new Set(ids);
+  const moved = items.map(item => moving.has(item.id) ? { ...item, start: item.start + delta } : item);
+
+  const blocked = moved.some(item =>
+    moving.has(item.id) && (
+      item.start < -EDGE_EPSILON ||
+      moved.some(other =>
+        !moving.has(other.id) &&
+        other.trackId === item.trackId &&
+        item.start < other.start + other.duration - EDGE_EPSILON &&
+        item.start + item.duration > other.start + EDGE_EPSILON
+      )
+    )
+  );
+
+  return blocked ? null : moved;
+}
+
+/**
+ * Apply the change between two versions of a trimmed clip to the clips
+ * linked to it, so linked video and audio stay in sync
+ */
+export function applyLinkedTrim(partners: TimelineItem[], previous: TimelineItem, updated: TimelineItem): TimelineItem[] {
+  const startDelta = updated.start - previous.start;
+  const durationDelta = updated.duration - previous.duration;
+  const trimStartDelta = (updated.trimStart || 0) - (previous.trimStart || 0);
+  const trimEndDelta = (updated.trimEnd || 0) - (previous.trimEnd || 0);
+
+  return partners.map(partner => ({
+    ...partner,
+    start: Math.max(0, partner.start + startDelta),
+    duration: Math.max(0.5, partner.duration + durationDelta),
+    trimStart: Math.max(0, (partner.trimStart || 0) + trimStartDelta),
+    trimEnd: Math.max(0, (partner.trimEnd || 0) + trimEndDelta)
+  }));
+}
+
+/**
+ * Copies of clipboard clips placed at a time, keeping their spacing. The
+ * copies get new ids and link groups, and are pushed later until they no
+ * longer overlap anything already on their tracks.
+ */
+export function pasteItems(existing: TimelineItem[], clipboard: TimelineItem[], time: number): TimelineItem[] {
+  if (clipboard.length === 0) return [];
+
+  const earliest = Math.min(...clipboard.map(item => item.start));
+  const linkGroups = new Map<string, string>();
+
+  let offset = Math.max(0, time) - earliest;
+  const overlapEnd = () => {
+    for (const item of clipboard) {
+      const start = item.start + offset;
+      const hit = existing.find(other =>
+        other.trackId === item.trackId &&
+        start < other.start + other.duration - EDGE_EPSILON &&
+        start + item.duration > other.start + EDGE_EPSILON
+      );
+      if (hit) return { item, end: hit.start + hit.duration };
+    }
+    return null;
+  };
+
+  for (let overlap = overlapEnd(); overlap; overlap = overlapEnd()) {
+    offset = overlap.end - overlap.item.start;
+  }
+
+  return clipboard.map(item => {
+    let linkGroupId = item.linkGroupId;
+    if (linkGroupId) {
+      if (!linkGroups.has(linkGroupId)) {
+        linkGroups.set(linkGroupId, crypto.randomUUID());
+      }
+      linkGroupId = linkGroups.get(linkGroupId);
+    }
+
+    return {
+      ...item,
+      id: crypto.randomUUID(),
+      start: item.start + offset,
+      linkGroupId
+    };
+  });
+}
+
+/**
+ * The part of the timeline between two times, moved to start at zero. Clips
+ * crossing either edge are cut there, skipping or dropping the source outside.
+ */
+export function cropItemsToRange(items: TimelineItem[], start: number, end: number): TimelineItem[] {
+  return items
+    .filter(item => item.start < end - EDGE_EPSILON && item.start + item.duration > start + EDGE_EPSILON)
+    .map(item => {
+      const head = Math.max(0, start - item.start);
+      const tail = Math.max(0, item.start + item.duration - end);
+      return {
+        ...item,
+        start: Math.max(0, item.start - start),
+        duration: item.duration - head - tail,
+        trimStart: (item.trimStart || 0) + head,
+        trimEnd: (item.trimEnd || 0) + tail
+      };
+    });
+}
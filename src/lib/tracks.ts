@@ -0,0 +1,123 @@
+import { TimelineItem, Track, TrackKind } from '@/components/VideoEditor/VideoEditor';
+
+export const DEFAULT_TRACK_HEIGHT = 40; // pixels
+export const MIN_TRACK_HEIGHT = 32;
+export const MAX_TRACK_HEIGHT = 120;
+
+export const DEFAULT_TRACKS: Track[] = [
+  { id: 'track1', kind: 'video', name: 'Video', height: DEFAULT_TRACK_HEIGHT, locked: false, hidden: false, solo: false, mute: false },
+  { id: 'track2', kind: 'audio', name: 'Audio 1', height: DEFAULT_TRACK_HEIGHT, locked: false, hidden: false, solo: false, mute: false },
+  { id: 'track3', kind: 'audio', name: 'Audio 2', height: DEFAULT_TRACK_HEIGHT, locked: false, hidden: false, solo: false, mute: false },
+  { id: 'track4', kind: 'audio', name: 'Voiceover', height: DEFAULT_TRACK_HEIGHT, locked: false, hidden: false, solo: false, mute: false },
+];
+
+// Track ids used by the media generators before tracks were configurable
+const LEGACY_TRACK_IDS: Record<string, string> = {
+  'video-track': 'track1',
+  'music-track': 'track2',
+  'sfx-track': 'track3',
+  'voiceover-track': 'track4',
+};
+
+/**
+ * Create a new empty track of the given kind
+ */
+export function createTrack(kind: TrackKind, existing: Track[]): Track {
+  const count = existing.filter(track => track.kind === kind).length;
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    name: `${kind === 'video' ? 'Video' : 'Audio'} ${count + 1}`,
+    height: DEFAULT_TRACK_HEIGHT,
+    locked: false,
+    hidden: false,
+    solo: false,
+    mute: false,
+  };
+}
+
+/**
+ * The kind of track an item belongs on
+ */
+export function getTrackKindForItem(item: Pick<TimelineItem, 'type'>): TrackKind {
+  return item.type === 'audio' ? 'audio' : 'video';
+}
+
+/**
+ * Check whether an item may be placed on a track
+ */
+export function canPlaceOnTrack(item: Pick<TimelineItem, 'type'>, track: Track): boolean {
+  return getTrackKindForItem(item) === track.kind;
+}
+
+/**
+ * Find the track an item should go on, mapping legacy track ids and falling
+ * back to the first unlocked track of the right kind
+ */
+export function resolveTrackId(item: TimelineItem, tracks: Track[]): string | null {
+  const requestedId = tracks.some(track => track.id === item.trackId)
+    ? item.trackId
+    : LEGACY_TRACK_IDS[item.trackId];
+  const requested = tracks.find(track => track.id === requestedId);
+
+  if (requested && canPlaceOnTrack(item, requested) && !requested.locked) {
+    return requested.id;
+  }
+
+  const fallback = tracks.find(track => canPlaceOnTrack(item, track) && !track.locked);
+  return fallback ? fallback.id : null;
+}
+
+/**
+ * Whether a track's pictures should be shown in the preview and export
+ */
+export function isTrackVisible(track: Track | undefined): boolean {
+  return !track || !track.hidden;
+}
+
+/**
+ * Whether a track should be heard, taking solo on any track into account
+ */
+export function isTrackAudible(track: Track | undefined, tracks: Track[]): boolean {
+  if (!track) return true;
+  if (track.mute) return false;
+
+  const anySolo = tracks.some(t => t.solo);
+  return !anySolo || track.solo;
+}
+
+/**
+ * Filter items down to the ones that contribute to playback: video and image
+ * items on visible tracks and audio items on audible tracks. Video on a track
+ * that can't be heard is kept but muted.
+ */
+export function getRenderableItems(items: TimelineItem[], tracks: Track[]): TimelineItem[] {
+  const tracksById = new Map(tracks.map(track => [track.id, track]));
+
+  return items
+    .filter(item => {
+      const track = tracksById.get(item.trackId);
+      return item.type === 'audio'
+        ? isTrackAudible(track, tracks)
+        : isTrackVisible(track);
+    })
+    .map(item => {
+      const track = tracksById.get(item.trackId);
+      return item.type !== 'audio' && !isTrackAudible(track, tracks)
+        ? { ...item, muted: true }
+        : item;
+    });
+}
+
+/**
+ * Vertical offset of each track from the top of the timeline
+ */
+export function getTrackOffsets(tracks: Track[]): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let top = 0;
+  tracks.forEach(track => {
+    offsets.set(track.id, top);
+    top += track.height;
+  });
+  return offsets;
+}
@@ -0,0 +1,193 @@
+import { ClipTransition, TimelineItem, TransitionEasing, TransitionKind } from '@/components/VideoEditor/VideoEditor';
+
+/**
+ * Transitions between clips that butt against each other on a track.
+ *
+ * A transition belongs to the second clip of the pair and is centred on the
+ * cut: it starts half its duration before the first clip ends and finishes
+ * half its duration after the second one starts. Over that stretch the first
+ * clip holds its last frame and the second its first, so neither clip's
+ * timing changes. When both clips carry sound, their audio crossfades too.
+ */
+
+export const DEFAULT_TRANSITION: ClipTransition = {
+  kind: 'crossfade',
+  duration: 1,
+  easing: 'ease-in-out'
+};
+
+export const MIN_TRANSITION_DURATION = 0.1;
+
+export const TRANSITION_KINDS: { value: TransitionKind; label: string }[] = [
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'dip-to-black', label: 'Dip to black' },
+  { value: 'wipe-left', label: 'Wipe left' },
+  { value: 'wipe-right', label: 'Wipe right' },
+  { value: 'slide-left', label: 'Slide left' },
+  { value: 'slide-right', label: 'Slide right' }
+];
+
+export const TRANSITION_EASINGS: { value: TransitionEasing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 'ease-in-out', label: 'Ease in and out' }
+];
+
+// MIME type of transitions dragged from the sidebar onto a cut
+export const TRANSITION_DRAG_TYPE = 'application/x-transition';
+
+// Clip edges closer than this count as touching, in seconds
+const ADJACENT_EPSILON = 0.01;
+
+/**
+ * Two clips on a track with no gap between them
+ */
+export interface ClipPair {
+  from: TimelineItem;
+  to: TimelineItem;
+}
+
+/**
+ * A pair of clips with the transition between them, its duration limited to
+ * what the shorter clip allows
+ */
+export interface TransitionPair extends ClipPair {
+  transition: ClipTransition;
+  cut: number; // Where the first clip ends and the second starts
+}
+
+// Slides use ffmpeg's own transitions, which only move at a steady speed
+export const isEasable = (kind: TransitionKind): boolean => kind !== 'slide-left' && kind !== 'slide-right';
+
+/**
+ * Every pair of touching clips on the same track
+ */
+export function getAdjacentPairs(items: TimelineItem[]): ClipPair[] {
+  const pairs: ClipPair[] = [];
+  items.forEach(to => {
+    const from = items.find(item =>
+      item.id !== to.id &&
+      item.trackId === to.trackId &&
+      Math.abs(item.start + item.duration - to.start) < ADJACENT_EPSILON
+    );
+    if (from) pairs.push({ from, to });
+  });
+  return pairs;
+}
+
+/**
+ * The transitions that take effect: those on clips that follow straight on
+ * from another
+ */
+export function getTransitionPairs(items: TimelineItem[]): TransitionPair[] {
+  return getAdjacentPairs(items)
+    .filter(({ to }) => to.transitionIn)
+    .map(({ from, to }) => ({
+      from,
+      to,
+      cut: to.start,
+      transition: {
+        ...to.transitionIn,
+        duration: Math.max(
+          MIN_TRANSITION_DURATION,
+          Math.min(to.transitionIn.duration, from.duration, to.duration)
+        )
+      }
+    }));
+}
+
+/**
+ * How far a clip shows before its start and after its end, for the
+ * transitions it takes part in
+ */
+export function getTransitionOverhang(item: TimelineItem, pairs: TransitionPair[]): { before: number; after: number } {
+  const incoming = pairs.find(pair => pair.to.id === item.id);
+  const outgoing = pairs.find(pair => pair.from.id === item.id);
+  return {
+    before: incoming ? incoming.transition.duration / 2 : 0,
+    after: outgoing ? outgoing.transition.duration / 2 : 0
+  };
+}
+
+/**
+ * Apply an easing curve to linear progress from 0 to 1
+ */
+export function ease(easing: TransitionEasing, progress: number): number {
+  const p = Math.min(1, Math.max(0, progress));
+  switch (easing) {
+    case 'ease-in': return p * p;
+    case 'ease-out': return 1 - (1 - p) * (1 - p);
+    case 'ease-in-out': return p * p * (3 - 2 * p);
+    default: return p;
+  }
+}
+
+/**
+ * A clip's part in a transition running at a given time
+ */
+export interface TransitionState {
+  kind: TransitionKind;
+  role: 'from' | 'to';
+  progress: number; // 0-1, eased
+}
+
+/**
+ * The transition a clip is part of at a time, if any. A clip can't be in two
+ * at once, as each is at most as long as the clips either side of it.
+ */
+export function getTransitionState(item: TimelineItem, pairs: TransitionPair[], time: number): TransitionState | null {
+  const pair = pairs.find(({ from, to, cut, transition }) =>
+    (from.id === item.id || to.id === item.id) && Math.abs(time - cut) < transition.duration / 2
+  );
+  if (!pair) return null;
+
+  const { kind, duration, easing } = pair.transition;
+  const linear = (time - (pair.cut - duration / 2)) / duration;
+  return {
+    kind,
+    role: pair.from.id === item.id ? 'from' : 'to',
+    progress: isEasable(kind) ? ease(easing, linear) : linear
+  };
+}
+
+/**
+ * Volume multiplier for a clip's sound during an audio crossfade. The sound
+ * fades linearly across the whole transition, but each clip only plays on
+ * its own side of the cut.
+ */
+export function getCrossfadeGain(item: TimelineItem, pairs: TransitionPair[], time: number): number {
+  const pair = pairs.find(({ from, to, cut, transition }) =>
+    (from.id === item.id || to.id === item.id) && Math.abs(time - cut) < transition.duration / 2
+  );
+  if (!pair) return 1;
+
+  const linear = (time - (pair.cut - pair.transition.duration / 2)) / pair.transition.duration;
+  return pair.from.id === item.id ? 1 - linear : linear;
+}
+
+// ffmpeg expression for eased progress; xfade's P runs from 1 down to 0
+const EASING_EXPRESSIONS: Record<TransitionEasing, string> = {
+  linear: '(1-P)',
+  'ease-in': '(1-P)*(1-P)',
+  'ease-out': '(1-P*P)',
+  'ease-in-out': '(1-P)*(1-P)*(1+2*P)'
+};
+
+/**
+ * Options for ffmpeg's xfade filter that draw a transition the way the
+ * preview does. Inputs must be planar RGB with alpha (gbrap), so that zero is
+ * black and plane 3 is the alpha.
+ */
+export function getXfadeTransition({ kind, easing }: ClipTransition): string {
+  const q = EASING_EXPRESSIONS[easing];
+  switch (kind) {
+    case 'dip-to-black':
+      return `transition=custom:expr='if(eq(PLANE,3),if(lt(${q},0.5),A,B),if(lt(${q},0.5),A*(1-2*${q}),B*(2*${q}-1)))'`;
+    case 'wipe-left': return `transition=custom:expr='if(gt(X,W*(1-${q})),B,A)'`;
+    case 'wipe-right': return `transition=custom:expr='if(lt(X,W*${q}),B,A)'`;
+    case 'slide-left': return 'transition=slideleft';
+    case 'slide-right': return 'transition=slideright';
+    default: return `transition=custom:expr='A*(1-${q})+B*${q}'`;
+  }
+}
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuery } from '@tanstack/react-query';
 import { getUserProjects } from '@/lib/projectService';
-import { ArrowLeft, Clock, Film, MoreVertical, Loader2, Plus } from 'lucide-react';
+import { localProjectsDB } from '@/services/LocalProjectsDB';
+import { ArrowLeft, Clock, Film, MoreVertical, Loader2, Plus, HardDrive } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -48,6 +49,26 @@ const ProjectsPage: React.FC = () => {
     enabled: !!user,
   });
   
+  // Projects stored in this browser that have never been synced to an account
+  const { data: localProjects, refetch: refetchLocal } = useQuery({
+    queryKey: ['localProjects'],
+    queryFn: async () => {
+      const projects = await localProjectsDB.getAllProjects();
+      return projects.filter(project => !project.remoteUpdatedAt);
+    },
+  });
+  
+  const deleteLocalProject = async (projectId: string) => {
+    try {
+      await localProjectsDB.deleteProject(projectId);
+      toast.success('Project deleted');
+      refetchLocal();
+    } catch (error) {
+      console.error('Error deleting local project:', error);
+      toast.error('Failed to delete project');
+    }
+  };
+  
   const deleteProject = async (projectId: string) => {
     try {
       // First delete associated timeline items
@@ -66,6 +87,9 @@ const ProjectsPage: React.FC = () => {
         
       if (projectError) throw projectError;
       
+      // Drop the cached copy so it isn't pushed back on the next sync
+      await localProjectsDB.deleteProject(projectId);
+      
       toast.success('Project deleted');
       refetch();
     } catch (error) {
@@ -191,6 +215,65 @@ const ProjectsPage: React.FC = () => {
             </div>
           </div>
         )}
+        
+        {localProjects && localProjects.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-lg font-semibold mb-1 flex items-center">
+              <HardDrive className="h-4 w-4 mr-2 text-[#D7F266]" />
+              On this device
+            </h2>
+            <p className="text-white/50 text-sm mb-4">
+              {user
+                ? 'These projects will sync to your account the next time you open the editor.'
+                : 'Sign in to sync these projects to your account.'}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {localProjects.map((project) => (
+                <Card key={project.id} className="bg-[#242423] border-white/10">
+                  <CardHeader className="pb-3">
+                    <div className="flex justify-between items-start">
+                      <CardTitle className="text-[#F7F8F6]">{project.document.name}</CardTitle>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent className="bg-[#242423] border-white/10 text-[#F7F8F6]">
+                          <DropdownMenuItem 
+                            className="cursor-pointer hover:bg-[#333333]"
+                            onClick={() => deleteLocalProject(project.id)}
+                          >
+                            Delete Project
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                    <CardDescription className="text-white/50 flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="aspect-video bg-[#151514] rounded-md flex items-center justify-center">
+                      <Film className="h-10 w-10 text-white/20" />
+                    </div>
+                  </CardContent>
+                  <CardFooter>
+                    <Button 
+                      className="w-full bg-[#D7F266] hover:bg-[#D7F266]/90 text-[#151514]"
+                      onClick={() => {
+                        navigate(`/editor/${project.id}`);
+                      }}
+                    >
+                      Open Project
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,111 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { ProjectDocument, upgradeProjectDocument } from '@/lib/projectDocument';
+
+interface LocalProject {
+  id: string;
+  document: ProjectDocument;
+  updatedAt: string; // Last local edit
+  remoteUpdatedAt: string | null; // Supabase updated_at as of the last sync
+  dirty: boolean; // Local edits not yet pushed to Supabase
+}
+
+interface LocalProjectsDB extends DBSchema {
+  projects: {
+    key: string;
+    value: LocalProject;
+    indexes: { 'by-updated': string };
+  };
+}
+
+class LocalProjectsDBService {
+  private db: Promise<IDBPDatabase<LocalProjectsDB>>;
+
+  constructor() {
+    this.db = openDB<LocalProjectsDB>('localProjectsDB', 1, {
+      upgrade(db) {
+        const projectsStore = db.createObjectStore('projects', {
+          keyPath: 'id',
+        });
+        projectsStore.createIndex('by-updated', 'updatedAt');
+      },
+    });
+  }
+
+  async getProject(id: string) {
+    const db = await this.db;
+    const project = await db.get('projects', id);
+    return project ? this.upgrade(project) : undefined;
+  }
+
+  async getAllProjects() {
+    const db = await this.db;
+    const projects = await db.getAllFromIndex('projects', 'by-updated');
+    return projects.map(project => this.upgrade(project)).reverse();
+  }
+
+  async getDirtyProjects() {
+    const projects = await this.getAllProjects();
+    return projects.filter(project => project.dirty);
+  }
+
+  /**
+   * Store a local edit of a project, marking it for sync
+   */
+  async saveProject(id: string, document: ProjectDocument) {
+    const db = await this.db;
+    const existing = await db.get('projects', id);
+    const project: LocalProject = {
+      id,
+      document,
+      updatedAt: new Date().toISOString(),
+      remoteUpdatedAt: existing?.remoteUpdatedAt ?? null,
+      dirty: true,
+    };
+    await db.put('projects', project);
+    return project;
+  }
+
+  /**
+   * Store a project exactly as it is on Supabase
+   */
+  async putSyncedProject(id: string, document: ProjectDocument, remoteUpdatedAt: string) {
+    const db = await this.db;
+    const project: LocalProject = {
+      id,
+      document,
+      updatedAt: remoteUpdatedAt,
+      remoteUpdatedAt,
+      dirty: false,
+    };
+    await db.put('projects', project);
+    return project;
+  }
+
+  /**
+   * Record a successful push. Edits made while the push was in flight keep
+   * the project dirty.
+   */
+  async markSynced(id: string, remoteUpdatedAt: string, pushedUpdatedAt: string) {
+    const db = await this.db;
+    const project = await db.get('projects', id);
+    if (project) {
+      await db.put('projects', {
+        ...project,
+        remoteUpdatedAt,
+        dirty: project.updatedAt !== pushedUpdatedAt,
+      });
+    }
+  }
+
+  async deleteProject(id: string) {
+    const db = await this.db;
+    await db.delete('projects', id);
+  }
+
+  private upgrade(project: LocalProject): LocalProject {
+    return { ...project, document: upgradeProjectDocument(project.document) };
+  }
+}
+
+export const localProjectsDB = new LocalProjectsDBService();
+export type { LocalProject };
@@ -0,0 +1,15 @@
+-- Persist the complete TimelineItem state so projects reload losslessly.
+--
+-- Rows written before this migration keep schema_version = 0 and are
+-- upgraded by the client when the project is loaded.
+
+alter table public.projects
+  add column if not exists schema_version integer not null default 0;
+
+alter table public.timeline_items
+  add column if not exists client_id text,
+  add column if not exists muted boolean,
+  add column if not exists trim_start double precision,
+  add column if not exists trim_end double precision,
+  add column if not exists properties jsonb,
+  add column if not exists schema_version integer not null default 0;
@@ -0,0 +1,9 @@
+-- Allow saves to upsert timeline items by their client-side id instead of
+-- inserting a fresh copy of every item on each save.
+
+update public.timeline_items
+  set client_id = id::text
+  where client_id is null;
+
+create unique index if not exists timeline_items_project_client_id_key
+  on public.timeline_items (project_id, client_id);
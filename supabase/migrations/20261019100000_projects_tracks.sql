@@ -0,0 +1,5 @@
+-- Store the project's track layout (names, order, lock/hide/solo/mute).
+-- Projects without tracks fall back to the default layout on load.
+
+alter table public.projects
+  add column if not exists tracks jsonb;
@@ -0,0 +1,5 @@
+-- Store remapped keyboard shortcuts as { shortcutId: ["Ctrl+Z", ...] }.
+-- Shortcuts missing from the map keep their default keys.
+
+alter table public.user_preferences
+  add column if not exists keymap jsonb;
@@ -0,0 +1,6 @@
+-- Store the project's frame rate, frame size, aspect ratio, audio sample
+-- rate and background colour. Projects without settings use 1080p 16:9 at
+-- 30fps on load.
+
+alter table public.projects
+  add column if not exists settings jsonb;
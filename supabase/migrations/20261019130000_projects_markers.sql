@@ -0,0 +1,6 @@
+-- Store the project's timeline markers: named, coloured notes on the ruler,
+-- optionally spanning a region and marking chapters for export. Markers on
+-- clips are kept with the clip in timeline_items.properties.
+
+alter table public.projects
+  add column if not exists markers jsonb;